@@ -2,32 +2,43 @@ import React, {
   useState,
   useRef,
   useEffect,
+  useCallback,
   type KeyboardEvent,
   type MutableRefObject,
 } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
 import {
-  HoverCard,
-  HoverCardContent,
-  HoverCardTrigger,
-} from "@/components/ui/hover-card";
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import {
   Check,
   ChevronDown,
   Paperclip,
-  History,
   Play,
   Search,
   Send,
   ChartNoAxesColumnIncreasing,
 } from "lucide-react";
 import MessageContent from "./message-content";
+import ConversationHistory from "./conversation-history";
 import { v4 as uuidv4 } from "uuid";
-import { api } from "@/trpc/react";
+import { api, type RouterOutputs } from "@/trpc/react";
+import { useAuth } from "@/context/auth-context";
+import {
+  type ChatSettings,
+  chatSettingLimits,
+  defaultChatSettings,
+} from "@/lib/chat-settings";
 import type { LoadingBarRef } from "react-top-loading-bar";
 import { toast } from "sonner";
 
@@ -37,6 +48,171 @@ interface Message {
   content: string;
 }
 
+// Maps a stored message onto the shape used while chatting
+const toMessage = (
+  message: RouterOutputs["conversation"]["messages"][number]
+): Message => ({
+  id: String(message.id),
+  role: message.role === "USER" ? "user" : "assistant",
+  content: message.content,
+});
+
+interface SettingSliderProps {
+  id: string;
+  label: string;
+  value: number | null;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+// Slider for an optional setting; shows "Default" until it is moved
+const SettingSlider: React.FC<SettingSliderProps> = ({
+  id,
+  label,
+  value,
+  onChange,
+  ...range
+}) => (
+  <div className="grid gap-2">
+    <div className="flex items-center justify-between">
+      <Label htmlFor={id}>{label}</Label>
+      <span className="text-muted-foreground text-sm">
+        {value ?? "Default"}
+      </span>
+    </div>
+    <Slider
+      id={id}
+      {...range}
+      value={[value ?? 1]} // 1 is the usual default for both temperature and top-p
+      onValueChange={([next]) => next !== undefined && onChange(next)}
+    />
+  </div>
+);
+
+interface ChatSettingsPopoverProps {
+  settings: ChatSettings;
+  onChange: (settings: ChatSettings) => void;
+  disabled?: boolean;
+}
+
+// Model and generation settings of the chat; they are saved with the next prompt
+const ChatSettingsPopover: React.FC<ChatSettingsPopoverProps> = ({
+  settings,
+  onChange,
+  disabled,
+}) => {
+  const { isServerSessionReady } = useAuth();
+  const { data: models } = api.ai.listModels.useQuery(undefined, {
+    enabled: isServerSessionReady,
+    staleTime: Number.POSITIVE_INFINITY, // The allow-list only changes with the server's config
+  });
+  const activeModel = settings.model ?? models?.defaultModel;
+  const { temperature, topP, maxOutputTokens, systemInstruction } =
+    chatSettingLimits;
+
+  const update = (patch: Partial<ChatSettings>) =>
+    onChange({ ...settings, ...patch });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="rounded-full h-8 px-3 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          disabled={disabled}
+        >
+          <span className="max-w-40 truncate">{activeModel ?? "Model"}</span>
+          <ChevronDown className="ml-1 size-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-4">
+        <div className="grid gap-1">
+          <Label>Model</Label>
+          {models?.models.map((model) => (
+            <button
+              key={model}
+              type="button"
+              // Picking the default model follows the server's default if it changes
+              onClick={() =>
+                update({ model: model === models.defaultModel ? null : model })
+              }
+              className="flex items-center justify-between rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent"
+            >
+              <span className="truncate">
+                {model}
+                {model === models.defaultModel && (
+                  <span className="text-muted-foreground"> (default)</span>
+                )}
+              </span>
+              {model === activeModel && <Check className="size-4 shrink-0" />}
+            </button>
+          ))}
+        </div>
+        <SettingSlider
+          id="chat-temperature"
+          label="Temperature"
+          value={settings.temperature}
+          {...temperature}
+          onChange={(value) => update({ temperature: value })}
+        />
+        <SettingSlider
+          id="chat-top-p"
+          label="Top-p"
+          value={settings.topP}
+          {...topP}
+          onChange={(value) => update({ topP: value })}
+        />
+        <div className="grid gap-2">
+          <Label htmlFor="chat-max-output-tokens">Max output tokens</Label>
+          <Input
+            id="chat-max-output-tokens"
+            type="number"
+            {...maxOutputTokens}
+            value={settings.maxOutputTokens ?? ""}
+            onChange={(e) => {
+              const value = Math.round(Number(e.target.value));
+              update({
+                maxOutputTokens:
+                  e.target.value === "" || Number.isNaN(value)
+                    ? null
+                    : Math.min(
+                        Math.max(value, maxOutputTokens.min),
+                        maxOutputTokens.max
+                      ),
+              });
+            }}
+            placeholder="Default"
+          />
+        </div>
+        <div className="grid gap-2">
+          <Label htmlFor="chat-system-instruction">System instruction</Label>
+          <Textarea
+            id="chat-system-instruction"
+            value={settings.systemInstruction ?? ""}
+            onChange={(e) =>
+              update({ systemInstruction: e.target.value || null })
+            }
+            maxLength={systemInstruction.maxLength}
+            placeholder="e.g. Answer as concisely as possible"
+            rows={3}
+          />
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => onChange(defaultChatSettings)}
+        >
+          Reset to defaults
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
 interface ChatInterfaceProps {
   loadingBarRef: MutableRefObject<LoadingBarRef | null>;
 }
@@ -48,15 +224,30 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ loadingBarRef }) => {
   const [currentPrompt, setCurrentPrompt] = useState<string>("");
   const inputRef = useRef<HTMLInputElement>(null);
   const currentAssistantMessageId = useRef<string | null>(null);
+  // Saved conversation the messages belong to; null until the first prompt of a new chat
+  const [conversationId, setConversationId] = useState<number | null>(null);
+  const [settings, setSettings] = useState<ChatSettings>(defaultChatSettings);
+
+  const utils = api.useUtils();
+  const { isServerSessionReady } = useAuth();
+
+  const createConversation = api.conversation.create.useMutation({
+    onError: (err) => {
+      toast.error(`Failed to start conversation: ${err.message}`);
+    },
+  });
 
   api.ai.generateStream.useSubscription(
     {
       prompt: currentPrompt,
+      conversationId: conversationId ?? 0,
+      settings,
     },
     {
       enabled:
         isGenerating &&
         currentPrompt !== "" &&
+        conversationId !== null &&
         currentAssistantMessageId.current !== null,
       onStarted: () => {
         console.log("Subscription started for prompt:", currentPrompt);
@@ -79,6 +270,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ loadingBarRef }) => {
         setCurrentPrompt("");
         loadingBarRef.current?.complete();
         toast.error(`Error generating response: ${err.message}`);
+        utils.conversation.list.invalidate(); // The prompt was saved anyway
         if (currentAssistantMessageId.current) {
           setMessages((prev) =>
             prev.filter((msg) => msg.id !== currentAssistantMessageId.current)
@@ -92,13 +284,75 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ loadingBarRef }) => {
         setCurrentPrompt("");
         loadingBarRef.current?.complete();
         currentAssistantMessageId.current = null;
+        utils.conversation.list.invalidate(); // Move the conversation to the top of History
       },
     }
   );
 
-  const handleSendMessage = () => {
+  // Replaces the chat with a saved conversation and its settings
+  const openConversation = useCallback(
+    async (id: number) => {
+      try {
+        // Always refetch: each prompt adds messages and saves the settings
+        const [conversation, saved] = await Promise.all([
+          utils.conversation.get.fetch({ id }, { staleTime: 0 }),
+          utils.conversation.messages.fetch(
+            { conversationId: id },
+            { staleTime: 0 }
+          ),
+        ]);
+        const { model, temperature, maxOutputTokens, topP, systemInstruction } =
+          conversation;
+        setConversationId(id);
+        setSettings({
+          model,
+          temperature,
+          maxOutputTokens,
+          topP,
+          systemInstruction,
+        });
+        setMessages(saved.map(toMessage));
+      } catch (err) {
+        toast.error(`Failed to open conversation: ${(err as Error).message}`);
+      }
+    },
+    [utils]
+  );
+
+  const startNewChat = () => {
+    setConversationId(null);
+    setSettings(defaultChatSettings);
+    setMessages([]);
+    inputRef.current?.focus();
+  };
+
+  // Conversation linked from the search palette: /ai?conversation=<id>
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const linkedConversationId = Number(searchParams.get("conversation")) || null;
+  useEffect(() => {
+    if (linkedConversationId === null || !isServerSessionReady) return;
+    openConversation(linkedConversationId);
+    router.replace("/ai", { scroll: false }); // Don't open it again
+  }, [linkedConversationId, isServerSessionReady, openConversation, router]);
+
+  const handleSendMessage = async () => {
     const promptToSend = inputValue.trim();
-    if (!promptToSend || isGenerating) return;
+    if (!promptToSend || isGenerating || createConversation.isPending) return;
+
+    // The first prompt of a new chat names the conversation
+    let targetConversationId = conversationId;
+    if (targetConversationId === null) {
+      try {
+        const created = await createConversation.mutateAsync({
+          title: promptToSend,
+        });
+        targetConversationId = created.id;
+        utils.conversation.list.invalidate();
+      } catch {
+        return; // Reported by onError
+      }
+    }
 
     const userMessage: Message = {
       id: uuidv4(),
@@ -115,6 +369,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ loadingBarRef }) => {
 
     setMessages((prev) => [...prev, userMessage, assistantMessage]);
     currentAssistantMessageId.current = assistantMessageId;
+    setConversationId(targetConversationId);
     setInputValue("");
     setCurrentPrompt(promptToSend);
     setIsGenerating(true);
@@ -213,31 +468,28 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ loadingBarRef }) => {
                 />
               </div>
             </CardContent>
-            <CardFooter className="py-2 px-3 flex justify-end items-center">
+            <CardFooter className="py-2 px-3 flex justify-between items-center">
+              <ChatSettingsPopover
+                settings={settings}
+                onChange={setSettings}
+                disabled={isGenerating}
+              />
               <div className="flex items-center gap-1">
-                <HoverCard>
-                  <HoverCardTrigger asChild>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      className="rounded-full h-8 w-8 p-0 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
-                      disabled={isGenerating}
-                    >
-                      <History className="size-5" />
-                    </Button>
-                  </HoverCardTrigger>
-                  <HoverCardContent className="w-64 p-4 bg-popover text-popover-foreground">
-                    <p className="text-sm text-muted-foreground">
-                      History feature not implemented.
-                    </p>
-                  </HoverCardContent>
-                </HoverCard>
+                <ConversationHistory
+                  activeConversationId={conversationId}
+                  onSelect={openConversation}
+                  onNewChat={startNewChat}
+                  onDeleted={(id) => id === conversationId && startNewChat()}
+                  disabled={isGenerating}
+                />
                 <Button
                   size="sm"
                   variant="default"
                   onClick={handleSendMessage}
                   className="rounded-full h-8 w-8 p-0"
-                  disabled={!inputValue || isGenerating}
+                  disabled={
+                    !inputValue || isGenerating || createConversation.isPending
+                  }
                 >
                   <Send className="h-4 w-4" />
                 </Button>
@@ -0,0 +1,198 @@
+import type React from "react";
+import { useState, type KeyboardEvent } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { History, Pencil, Plus, Trash2 } from "lucide-react";
+import { api } from "@/trpc/react";
+import { useAuth } from "@/context/auth-context";
+import { toast } from "sonner";
+
+interface ConversationHistoryProps {
+  activeConversationId: number | null;
+  onSelect: (conversationId: number) => void;
+  onNewChat: () => void;
+  onDeleted: (conversationId: number) => void; // Lets the chat reset when the open one is deleted
+  disabled?: boolean;
+}
+
+// History panel of the chat: saved conversations with open, rename and delete
+const ConversationHistory: React.FC<ConversationHistoryProps> = ({
+  activeConversationId,
+  onSelect,
+  onNewChat,
+  onDeleted,
+  disabled,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [renaming, setRenaming] = useState<{
+    id: number;
+    title: string;
+  } | null>(null);
+
+  const utils = api.useUtils();
+  const { isServerSessionReady } = useAuth();
+  const { data: conversations, isLoading } = api.conversation.list.useQuery(
+    undefined,
+    { enabled: isServerSessionReady }
+  );
+
+  const renameConversation = api.conversation.rename.useMutation({
+    onSuccess: () => {
+      setRenaming(null);
+    },
+    onError: (err) => {
+      toast.error(`Failed to rename conversation: ${err.message}`);
+    },
+    onSettled: () => utils.conversation.list.invalidate(),
+  });
+
+  const deleteConversation = api.conversation.delete.useMutation({
+    onSuccess: (_, { id }) => {
+      toast.success("Conversation deleted");
+      onDeleted(id);
+    },
+    onError: (err) => {
+      toast.error(`Failed to delete conversation: ${err.message}`);
+    },
+    onSettled: () => utils.conversation.list.invalidate(),
+  });
+
+  const handleRenameKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter" && renaming) {
+      event.preventDefault();
+      const title = renaming.title.trim();
+      if (title) renameConversation.mutate({ id: renaming.id, title });
+    } else if (event.key === "Escape") {
+      event.preventDefault(); // Keep the panel open
+      setRenaming(null);
+    }
+  };
+
+  const select = (conversationId: number) => {
+    setOpen(false);
+    onSelect(conversationId);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setRenaming(null);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="rounded-full h-8 w-8 p-0 text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+          disabled={disabled}
+          aria-label="Conversation history"
+        >
+          <History className="size-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-2">
+        <div className="flex items-center justify-between px-2 pb-2">
+          <p className="font-medium text-sm">History</p>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-7"
+            onClick={() => {
+              setOpen(false);
+              onNewChat();
+            }}
+          >
+            <Plus className="mr-1 size-4" /> New chat
+          </Button>
+        </div>
+        <div className="max-h-80 space-y-1 overflow-y-auto">
+          {isLoading && (
+            <div className="space-y-1">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          )}
+          {conversations?.length === 0 && (
+            <p className="px-2 py-4 text-center text-muted-foreground text-sm">
+              No conversations yet.
+            </p>
+          )}
+          {conversations?.map((conversation) =>
+            renaming?.id === conversation.id ? (
+              <Input
+                key={conversation.id}
+                value={renaming.title}
+                onChange={(e) =>
+                  setRenaming({ ...renaming, title: e.target.value })
+                }
+                onKeyDown={handleRenameKeyDown}
+                onBlur={() => setRenaming(null)}
+                disabled={renameConversation.isPending}
+                className="h-10"
+                aria-label="Conversation title"
+                autoFocus
+              />
+            ) : (
+              <div
+                key={conversation.id}
+                className={`group flex items-center gap-1 rounded-md px-2 py-1 hover:bg-accent ${
+                  conversation.id === activeConversationId ? "bg-accent" : ""
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => select(conversation.id)}
+                  className="min-w-0 flex-1 text-left"
+                >
+                  <p className="truncate text-sm">{conversation.title}</p>
+                  <p className="text-muted-foreground text-xs">
+                    {formatDistanceToNow(conversation.updatedAt, {
+                      addSuffix: true,
+                    })}
+                  </p>
+                </button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="size-7 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                  onClick={() =>
+                    setRenaming({
+                      id: conversation.id,
+                      title: conversation.title,
+                    })
+                  }
+                  aria-label={`Rename ${conversation.title}`}
+                >
+                  <Pencil className="size-3" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="size-7 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                  onClick={() =>
+                    deleteConversation.mutate({ id: conversation.id })
+                  }
+                  disabled={deleteConversation.isPending}
+                  aria-label={`Delete ${conversation.title}`}
+                >
+                  <Trash2 className="size-3" />
+                </Button>
+              </div>
+            )
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ConversationHistory;
@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { todoAccessWhere } from "@/server/access";
+import { db } from "@/server/db";
+import { getSessionUser } from "@/server/session";
+import { storage } from "@/server/storage";
+
+// Downloads an attachment; anyone who can see its todo can download it
+export async function GET(
+	req: NextRequest,
+	{ params }: { params: Promise<{ id: string }> },
+) {
+	const user = await getSessionUser(req.cookies);
+	if (!user) {
+		return NextResponse.json({ error: "Not authenticated." }, { status: 401 });
+	}
+
+	const { id } = await params;
+	const attachmentId = Number(id);
+	const attachment = Number.isInteger(attachmentId)
+		? await db.attachment.findFirst({
+				where: {
+					id: attachmentId,
+					todo: { deletedAt: null, ...todoAccessWhere(user.uid) }, // Not for trashed todos
+				},
+			})
+		: null;
+	const data = attachment && (await storage.get(attachment.storageKey));
+	if (!attachment || !data) {
+		return NextResponse.json(
+			{ error: "Attachment not found" },
+			{ status: 404 },
+		);
+	}
+
+	// Images and PDFs open in the browser; ?download forces a save dialog
+	const disposition = req.nextUrl.searchParams.has("download")
+		? "attachment"
+		: "inline";
+	return new NextResponse(new Uint8Array(data), {
+		headers: {
+			"Content-Type": attachment.contentType,
+			"Content-Length": String(data.byteLength),
+			"Content-Disposition": `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+			"X-Content-Type-Options": "nosniff",
+		},
+	});
+}
@@ -0,0 +1,73 @@
+import { type Attachment, MemberRole } from "@prisma/client";
+import { type NextRequest, NextResponse } from "next/server";
+
+import { validateAttachment } from "@/lib/attachments";
+import { todoAccessWhere } from "@/server/access";
+import { bumpTodoVersion } from "@/server/concurrency";
+import { db } from "@/server/db";
+import { publishTodoChanges } from "@/server/realtime";
+import { getSessionUser } from "@/server/session";
+import { storage } from "@/server/storage";
+
+/**
+ * Uploads a file to a todo. Files travel as multipart form data (fields `todoId` and `file`),
+ * which tRPC's JSON links can't carry; listing and deleting go through `attachment.*` procedures.
+ */
+export async function POST(req: NextRequest) {
+	const user = await getSessionUser(req.cookies);
+	if (!user) {
+		return NextResponse.json({ error: "Not authenticated." }, { status: 401 });
+	}
+
+	const formData = await req.formData().catch(() => null);
+	const todoId = Number(formData?.get("todoId"));
+	const file = formData?.get("file");
+	if (!Number.isInteger(todoId) || !(file instanceof File)) {
+		return NextResponse.json(
+			{ error: "Expected a todoId and a file" },
+			{ status: 400 },
+		);
+	}
+
+	const validationError = validateAttachment(file);
+	if (validationError) {
+		return NextResponse.json({ error: validationError }, { status: 400 });
+	}
+
+	// Attaching files changes the todo, so it takes edit access
+	const todo = await db.todo.findFirst({
+		where: {
+			id: todoId,
+			deletedAt: null,
+			...todoAccessWhere(user.uid, MemberRole.EDITOR),
+		},
+		select: { id: true },
+	});
+	if (!todo) {
+		return NextResponse.json({ error: "Todo not found" }, { status: 404 });
+	}
+
+	const storageKey = await storage.put(
+		new Uint8Array(await file.arrayBuffer()),
+		file.type,
+	);
+	let attachment: Attachment;
+	try {
+		attachment = await db.attachment.create({
+			data: {
+				todoId,
+				fileName: file.name || "attachment",
+				contentType: file.type,
+				size: file.size,
+				storageKey,
+				uploaderId: user.uid,
+			},
+		});
+	} catch (error) {
+		await storage.delete(storageKey); // Don't leave an orphaned file behind
+		throw error;
+	}
+	await bumpTodoVersion(todoId);
+	await publishTodoChanges("updated", [todoId]); // Refresh the attachment count on open lists
+	return NextResponse.json(attachment, { status: 201 });
+}
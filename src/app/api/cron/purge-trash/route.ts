@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server";
+
+import { env } from "@/env";
+import { purgeExpiredTrash } from "@/server/trash";
+
+/**
+ * Purges expired trash for every user. Meant for a scheduler such as cron, which calls it with
+ * `Authorization: Bearer <CRON_SECRET>`; the route is disabled while `CRON_SECRET` isn't set.
+ */
+export async function GET(req: NextRequest) {
+	if (
+		!env.CRON_SECRET ||
+		req.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`
+	) {
+		return NextResponse.json({ error: "Not authorized." }, { status: 401 });
+	}
+
+	const { count } = await purgeExpiredTrash();
+	return NextResponse.json({ purged: count });
+}
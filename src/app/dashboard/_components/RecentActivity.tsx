@@ -0,0 +1,57 @@
+"use client";
+
+import Link from "next/link";
+import { formatDistanceToNow } from "date-fns";
+import { api } from "@/trpc/react";
+import { useAuth } from "@/context/auth-context";
+import { describeTodoEvent } from "@/lib/todo-activity";
+import { Skeleton } from "@/components/ui/skeleton";
+
+const RECENT_ACTIVITY_LIMIT = 6;
+
+// Latest todo changes for the dashboard's Activity card
+export function RecentActivity() {
+  const { isServerSessionReady } = useAuth();
+  const { data, isLoading, error } = api.activity.list.useQuery(
+    { limit: RECENT_ACTIVITY_LIMIT },
+    { enabled: isServerSessionReady }
+  );
+
+  if (!isServerSessionReady || isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          <Skeleton key={i} className="h-8 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="text-destructive text-sm">
+        Error loading activity: {error.message}
+      </p>
+    );
+  }
+
+  if (!data || data.items.length === 0) {
+    return <p>No recent activity to display.</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {data.items.map((event) => (
+        <li key={event.id} className="text-sm">
+          <Link href="/todo" className="font-medium hover:underline">
+            {event.todo.title}
+          </Link>
+          <p className="text-muted-foreground text-xs">
+            {describeTodoEvent(event)} ·{" "}
+            {formatDistanceToNow(event.createdAt, { addSuffix: true })}
+          </p>
+        </li>
+      ))}
+    </ul>
+  );
+}
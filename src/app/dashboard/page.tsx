@@ -20,6 +20,7 @@ import {
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
+import { RecentActivity } from "./_components/RecentActivity";
 
 export default function Dashboard() {
   const { user, signOut } = useAuth();
@@ -137,7 +138,7 @@ export default function Dashboard() {
                 <CardDescription>Your recent activity</CardDescription>
               </CardHeader>
               <CardContent>
-                <p>No recent activity to display.</p>
+                <RecentActivity />
               </CardContent>
             </Card>
 
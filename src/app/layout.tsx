@@ -5,6 +5,7 @@ import { Geist } from "next/font/google";
 import { ThemeProvider } from "@/components/theme-provider";
 import { Toaster } from "@/components/ui/sonner";
 import { AuthProvider } from "@/context/auth-context";
+import { SearchPalette } from "@/components/search-palette";
 
 import { TRPCReactProvider } from "@/trpc/react";
 import { headers } from "next/headers";
@@ -35,6 +36,7 @@ export default async function RootLayout({
               disableTransitionOnChange
             >
               {children}
+              <SearchPalette />
               <Toaster />
             </ThemeProvider>
           </AuthProvider>
@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/trpc/react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Check, UserPlus, UserX } from "lucide-react";
+
+interface Assignee {
+  id: string;
+  email: string | null;
+}
+
+// Two letters from the part of the email before the @, e.g. "jane.doe@..." -> "JD"
+const initialsOf = (email: string | null) => {
+  if (!email) return "?";
+  const parts = email.split("@")[0]?.split(/[._-]+/).filter(Boolean) ?? [];
+  const initials =
+    parts.length > 1
+      ? `${parts[0]?.[0]}${parts[1]?.[0]}`
+      : (parts[0]?.slice(0, 2) ?? "?");
+  return initials.toUpperCase();
+};
+
+interface AssigneeAvatarProps {
+  assignee: Assignee;
+  className?: string;
+}
+
+export function AssigneeAvatar({ assignee, className }: AssigneeAvatarProps) {
+  return (
+    <Avatar className={cn("size-6", className)} title={assignee.email ?? ""}>
+      <AvatarFallback className="font-medium text-[10px]">
+        {initialsOf(assignee.email)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
+
+interface AssigneePickerProps {
+  todo: {
+    id: number;
+    projectId: number | null;
+    assignee: Assignee | null;
+  };
+  disabled?: boolean;
+}
+
+// Avatar of the todo's assignee that opens a menu to reassign it
+export function AssigneePicker({ todo, disabled }: AssigneePickerProps) {
+  const [open, setOpen] = useState(false);
+  const utils = api.useUtils();
+
+  // Only load the candidates while the menu is open
+  const { data: candidates, isLoading } = api.member.assignable.useQuery(
+    { projectId: todo.projectId },
+    { enabled: open }
+  );
+
+  const assignTodo = api.todo.assign.useMutation({
+    onSuccess: () => {
+      utils.todo.getAll.invalidate();
+    },
+    onError: (err) => {
+      toast.error(`Failed to assign todo: ${err.message}`);
+    },
+  });
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7 rounded-full"
+          disabled={disabled || assignTodo.isPending}
+          aria-label={
+            todo.assignee
+              ? `Assigned to ${todo.assignee.email ?? "unknown user"}`
+              : "Assign"
+          }
+        >
+          {todo.assignee ? (
+            <AssigneeAvatar assignee={todo.assignee} />
+          ) : (
+            <UserPlus className="size-4 text-muted-foreground" />
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Assign to</DropdownMenuLabel>
+        {isLoading && (
+          <DropdownMenuItem disabled>Loading...</DropdownMenuItem>
+        )}
+        {candidates?.map((user) => (
+          <DropdownMenuItem
+            key={user.id}
+            onClick={() =>
+              assignTodo.mutate({ id: todo.id, assigneeId: user.id })
+            }
+          >
+            <AssigneeAvatar assignee={user} className="size-5" />
+            <span className="truncate">{user.email ?? "Unknown user"}</span>
+            {todo.assignee?.id === user.id && <Check className="ml-auto" />}
+          </DropdownMenuItem>
+        ))}
+        {todo.assignee && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() =>
+                assignTodo.mutate({ id: todo.id, assigneeId: null })
+              }
+            >
+              <UserX /> Unassign
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
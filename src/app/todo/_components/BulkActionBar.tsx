@@ -0,0 +1,227 @@
+"use client";
+
+import { TodoStatus } from "@prisma/client";
+import { api, type RouterOutputs } from "@/trpc/react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Tags, Trash2, X } from "lucide-react";
+import { useAuth } from "@/context/auth-context";
+
+type BulkOutcome = RouterOutputs["todo"]["bulkDelete"];
+
+interface BulkActionBarProps {
+  selectedIds: number[];
+  visibleCount: number; // Todos currently loaded, for the "select all" checkbox
+  onSelectAll: () => void;
+  onClear: () => void;
+}
+
+// Toolbar for acting on every selected todo at once
+export function BulkActionBar({
+  selectedIds,
+  visibleCount,
+  onSelectAll,
+  onClear,
+}: BulkActionBarProps) {
+  const utils = api.useUtils();
+  const { isServerSessionReady } = useAuth();
+  const { data: labels } = api.label.getAll.useQuery(undefined, {
+    enabled: isServerSessionReady,
+  });
+
+  // Reports partial failures, then refreshes the list and drops the selection.
+  // `undo` adds an "Undo" action to the toast for the todos that succeeded.
+  const handleOutcome = (
+    outcome: BulkOutcome,
+    action: string,
+    undo?: (ids: number[]) => void
+  ) => {
+    if (outcome.failed > 0) {
+      toast.error(
+        `${outcome.failed} todo${outcome.failed === 1 ? "" : "s"} could not be ${action}`
+      );
+    }
+    if (outcome.updated > 0) {
+      const succeededIds = outcome.results
+        .filter((result) => result.success)
+        .map((result) => result.id);
+      toast.success(
+        `${outcome.updated} todo${outcome.updated === 1 ? "" : "s"} ${action}`,
+        undo
+          ? { action: { label: "Undo", onClick: () => undo(succeededIds) } }
+          : undefined
+      );
+    }
+    utils.todo.getAll.invalidate();
+    utils.project.getAll.invalidate(); // Refresh project todo counts
+    onClear();
+  };
+
+  const bulkUpdateStatus = api.todo.bulkUpdateStatus.useMutation({
+    onSuccess: (outcome) => handleOutcome(outcome, "updated"),
+    onError: (err) => {
+      toast.error(`Failed to update todos: ${err.message}`);
+    },
+  });
+
+  const bulkAddLabel = api.todo.bulkAddLabel.useMutation({
+    onSuccess: (outcome) => handleOutcome(outcome, "labeled"),
+    onError: (err) => {
+      toast.error(`Failed to label todos: ${err.message}`);
+    },
+  });
+
+  const bulkRestore = api.todo.bulkRestore.useMutation({
+    onSettled: () => {
+      utils.todo.getAll.invalidate();
+      utils.todo.listTrash.invalidate();
+      utils.project.getAll.invalidate();
+    },
+    onError: (err) => {
+      toast.error(`Failed to restore todos: ${err.message}`);
+    },
+  });
+
+  const bulkDelete = api.todo.bulkDelete.useMutation({
+    onSuccess: (outcome) => {
+      handleOutcome(outcome, "moved to trash", (ids) =>
+        bulkRestore.mutate({ ids })
+      );
+    },
+    onError: (err) => {
+      toast.error(`Failed to delete todos: ${err.message}`);
+    },
+  });
+
+  const isPending =
+    bulkUpdateStatus.isPending || bulkAddLabel.isPending || bulkDelete.isPending;
+  const count = selectedIds.length;
+  if (count === 0) return null;
+
+  return (
+    <div className="sticky top-2 z-10 flex flex-wrap items-center gap-2 rounded-md border bg-background p-2 shadow-sm">
+      <Checkbox
+        checked={count === visibleCount ? true : "indeterminate"}
+        onCheckedChange={(checked) =>
+          checked === true ? onSelectAll() : onClear()
+        }
+        aria-label="Select all todos"
+      />
+      <span className="font-medium text-sm">{count} selected</span>
+
+      <Select
+        value=""
+        onValueChange={(status) =>
+          bulkUpdateStatus.mutate({
+            ids: selectedIds,
+            status: status as TodoStatus,
+          })
+        }
+        disabled={isPending}
+      >
+        <SelectTrigger className="w-[160px]">
+          <SelectValue placeholder="Set status" />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.values(TodoStatus).map((status) => (
+            <SelectItem key={status} value={status}>
+              {status.replace("_", " ")}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={isPending || !labels?.length}>
+            <Tags className="mr-2 size-4" /> Add label
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel>Add label to {count} todos</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {labels?.map((label) => (
+            <DropdownMenuItem
+              key={label.id}
+              onClick={() =>
+                bulkAddLabel.mutate({ ids: selectedIds, labelId: label.id })
+              }
+            >
+              <span
+                className="size-2 rounded-full"
+                style={{ backgroundColor: label.color }}
+              />
+              {label.name}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="destructive" disabled={isPending}>
+            <Trash2 className="mr-2 size-4" /> Delete
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {count} todo{count === 1 ? "" : "s"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              The selected todos will be moved to the trash, where they can be
+              restored for a while.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => bulkDelete.mutate({ ids: selectedIds })}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {isPending && <Loader2 className="size-4 animate-spin" />}
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="ml-auto"
+        onClick={onClear}
+        aria-label="Clear selection"
+      >
+        <X className="size-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { CalendarIcon, X } from "lucide-react";
+
+interface DateTimePickerProps {
+  id?: string;
+  value: Date | null | undefined;
+  onChange: (value: Date | null) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// Popover calendar with a time input, used for due dates and reminders
+export function DateTimePicker({
+  id,
+  value,
+  onChange,
+  placeholder = "Pick a date",
+  className,
+}: DateTimePickerProps) {
+  const time = value ? format(value, "HH:mm") : "09:00";
+
+  // Keeps the selected time of day when a different day is picked
+  const handleDaySelect = (day: Date | undefined) => {
+    if (!day) {
+      onChange(null);
+      return;
+    }
+    const [hours = 9, minutes = 0] = time.split(":").map(Number);
+    const next = new Date(day);
+    next.setHours(hours, minutes, 0, 0);
+    onChange(next);
+  };
+
+  const handleTimeChange = (newTime: string) => {
+    if (!value || !newTime) return;
+    const [hours = 0, minutes = 0] = newTime.split(":").map(Number);
+    const next = new Date(value);
+    next.setHours(hours, minutes, 0, 0);
+    onChange(next);
+  };
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            className={cn(
+              "flex-1 justify-start font-normal",
+              !value && "text-muted-foreground"
+            )}
+          >
+            <CalendarIcon className="mr-2 size-4" />
+            {value ? format(value, "PPp") : placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={value ?? undefined}
+            onSelect={handleDaySelect}
+            initialFocus
+          />
+          <div className="border-t p-3">
+            <Input
+              type="time"
+              value={time}
+              onChange={(e) => handleTimeChange(e.target.value)}
+              disabled={!value}
+            />
+          </div>
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => onChange(null)}
+          aria-label="Clear date"
+        >
+          <X className="size-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
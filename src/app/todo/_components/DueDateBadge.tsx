@@ -0,0 +1,42 @@
+"use client";
+
+import { TodoStatus, type Todo } from "@prisma/client";
+import { format, isPast } from "date-fns";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Bell, CalendarClock } from "lucide-react";
+
+// A todo is overdue once its due date passes while it is still open
+export const isOverdue = (todo: Pick<Todo, "dueAt" | "status">) =>
+  todo.dueAt !== null &&
+  isPast(todo.dueAt) &&
+  todo.status !== TodoStatus.DONE &&
+  todo.status !== TodoStatus.CANCELED;
+
+interface DueDateBadgeProps {
+  todo: Pick<Todo, "dueAt" | "remindAt" | "status">;
+  className?: string;
+}
+
+// Due date (highlighted when overdue) and reminder indicator for todo cards
+export function DueDateBadge({ todo, className }: DueDateBadgeProps) {
+  if (!todo.dueAt && !todo.remindAt) return null;
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1", className)}>
+      {todo.dueAt && (
+        <Badge variant={isOverdue(todo) ? "destructive" : "outline"}>
+          <CalendarClock />
+          {isOverdue(todo) ? "Overdue: " : "Due: "}
+          {format(todo.dueAt, "PPp")}
+        </Badge>
+      )}
+      {todo.remindAt && (
+        <Badge variant="outline" title={format(todo.remindAt, "PPp")}>
+          <Bell />
+          {format(todo.remindAt, "PP")}
+        </Badge>
+      )}
+    </div>
+  );
+}
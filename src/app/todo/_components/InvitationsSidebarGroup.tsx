@@ -0,0 +1,93 @@
+"use client";
+
+import { api } from "@/trpc/react";
+import { toast } from "sonner";
+import { useAuth } from "@/context/auth-context";
+import {
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+} from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { Check, X } from "lucide-react";
+import { roleLabels } from "./ShareProjectDialog";
+
+// Pending project invitations; hidden while there are none
+export function InvitationsSidebarGroup() {
+  const utils = api.useUtils();
+  const { isServerSessionReady } = useAuth();
+
+  const { data: invitations } = api.member.listInvitations.useQuery(
+    undefined,
+    {
+      enabled: isServerSessionReady,
+    }
+  );
+
+  const respond = api.member.respond.useMutation({
+    onSuccess: (_, variables) => {
+      toast.success(
+        variables.accept ? "Invitation accepted!" : "Invitation declined"
+      );
+      utils.member.listInvitations.invalidate();
+      if (variables.accept) {
+        utils.project.getAll.invalidate();
+        utils.todo.getAll.invalidate(); // The shared todos show up under All Todos
+      }
+    },
+    onError: (err) => {
+      toast.error(`Failed to respond to invitation: ${err.message}`);
+    },
+  });
+
+  if (!invitations?.length) return null;
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>Invitations</SidebarGroupLabel>
+      <SidebarGroupContent className="space-y-2">
+        {invitations.map((invitation) => (
+          <div
+            key={invitation.id}
+            className="rounded-md border p-2 text-sm"
+          >
+            <p className="truncate font-medium">{invitation.project.name}</p>
+            <p className="truncate text-muted-foreground text-xs">
+              {roleLabels[invitation.role]} · from{" "}
+              {invitation.project.user.email ?? "unknown user"}
+            </p>
+            <div className="mt-2 flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1"
+                onClick={() =>
+                  respond.mutate({
+                    projectId: invitation.projectId,
+                    accept: true,
+                  })
+                }
+                disabled={respond.isPending}
+              >
+                <Check className="size-4" /> Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1"
+                onClick={() =>
+                  respond.mutate({
+                    projectId: invitation.projectId,
+                    accept: false,
+                  })
+                }
+                disabled={respond.isPending}
+              >
+                <X className="size-4" /> Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+}
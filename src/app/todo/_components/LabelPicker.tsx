@@ -0,0 +1,188 @@
+"use client";
+
+import { useState } from "react";
+import type { Label } from "@prisma/client";
+import { api } from "@/trpc/react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Check, Plus, Tags } from "lucide-react";
+import { useAuth } from "@/context/auth-context";
+
+// Colors handed out to new labels in turn
+export const LABEL_COLORS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#06b6d4",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+interface LabelBadgeProps {
+  label: Pick<Label, "name" | "color">;
+  className?: string;
+}
+
+// Outline badge with a colored dot for a label
+export function LabelBadge({ label, className }: LabelBadgeProps) {
+  return (
+    <Badge variant="outline" className={className}>
+      <span
+        className="size-2 rounded-full"
+        style={{ backgroundColor: label.color }}
+      />
+      {label.name}
+    </Badge>
+  );
+}
+
+interface LabelPickerProps {
+  id?: string;
+  value: number[];
+  onChange: (labelIds: number[]) => void;
+  allowCreate?: boolean; // Offer to create a label from the search text
+  placeholder?: string;
+  className?: string;
+}
+
+// Multi-select combobox for labels, built on the command palette
+export function LabelPicker({
+  id,
+  value,
+  onChange,
+  allowCreate = true,
+  placeholder = "Add labels",
+  className,
+}: LabelPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const utils = api.useUtils();
+  const { isServerSessionReady } = useAuth();
+  const { data: labels } = api.label.getAll.useQuery(undefined, {
+    enabled: isServerSessionReady,
+  });
+
+  const createLabel = api.label.create.useMutation({
+    onSuccess: (label) => {
+      utils.label.getAll.invalidate();
+      onChange([...value, label.id]); // Select the label that was just created
+      setSearch("");
+    },
+    onError: (err) => {
+      toast.error(`Failed to create label: ${err.message}`);
+    },
+  });
+
+  const toggle = (labelId: number) => {
+    onChange(
+      value.includes(labelId)
+        ? value.filter((id) => id !== labelId)
+        : [...value, labelId]
+    );
+  };
+
+  const selected = labels?.filter((label) => value.includes(label.id)) ?? [];
+  const trimmedSearch = search.trim();
+  const canCreate =
+    allowCreate &&
+    trimmedSearch !== "" &&
+    !labels?.some(
+      (label) => label.name.toLowerCase() === trimmedSearch.toLowerCase()
+    );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("h-auto min-h-9 justify-start font-normal", className)}
+        >
+          <Tags className="mr-2 size-4 shrink-0" />
+          {selected.length > 0 ? (
+            <span className="flex flex-wrap gap-1">
+              {selected.map((label) => (
+                <LabelBadge key={label.id} label={label} />
+              ))}
+            </span>
+          ) : (
+            <span className="text-muted-foreground">{placeholder}</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-0" align="start">
+        <Command>
+          <CommandInput
+            placeholder="Search labels..."
+            value={search}
+            onValueChange={setSearch}
+          />
+          <CommandList>
+            <CommandEmpty>No labels found.</CommandEmpty>
+            <CommandGroup>
+              {labels?.map((label) => (
+                <CommandItem
+                  key={label.id}
+                  value={label.name}
+                  onSelect={() => toggle(label.id)}
+                >
+                  <span
+                    className="size-2 rounded-full"
+                    style={{ backgroundColor: label.color }}
+                  />
+                  <span className="flex-1">{label.name}</span>
+                  <Check
+                    className={cn(
+                      "size-4",
+                      value.includes(label.id) ? "opacity-100" : "opacity-0"
+                    )}
+                  />
+                </CommandItem>
+              ))}
+            </CommandGroup>
+            {canCreate && (
+              <CommandGroup forceMount>
+                <CommandItem
+                  forceMount
+                  value={`create:${trimmedSearch}`}
+                  onSelect={() =>
+                    createLabel.mutate({
+                      name: trimmedSearch,
+                      color:
+                        LABEL_COLORS[(labels?.length ?? 0) % LABEL_COLORS.length],
+                    })
+                  }
+                  disabled={createLabel.isPending}
+                >
+                  <Plus className="size-4" />
+                  Create "{trimmedSearch}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,278 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type { Label as TodoLabel } from "@prisma/client";
+import { api } from "@/trpc/react";
+import { toast } from "sonner";
+import {
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import { useAuth } from "@/context/auth-context";
+import { LABEL_COLORS } from "./LabelPicker";
+
+// Validation schema for the create/edit form
+const labelFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Pick a color"),
+});
+type LabelFormData = z.infer<typeof labelFormSchema>;
+
+// Sidebar section for managing the user's labels
+export function LabelSidebarGroup() {
+  const [isFormDialogOpen, setFormDialogOpen] = useState(false);
+  const [editingLabel, setEditingLabel] = useState<TodoLabel | null>(null);
+  const [deletingLabel, setDeletingLabel] = useState<TodoLabel | null>(null);
+
+  const utils = api.useUtils();
+  const { isServerSessionReady } = useAuth();
+
+  const { data: labels } = api.label.getAll.useQuery(undefined, {
+    enabled: isServerSessionReady,
+  });
+
+  // --- Mutations --- //
+
+  const createLabel = api.label.create.useMutation({
+    onSuccess: (label) => {
+      toast.success(`Label "${label.name}" created!`);
+      utils.label.getAll.invalidate();
+      setFormDialogOpen(false);
+    },
+    onError: (err) => {
+      toast.error(`Failed to create label: ${err.message}`);
+    },
+  });
+
+  const updateLabel = api.label.update.useMutation({
+    onSuccess: () => {
+      toast.success("Label updated!");
+      utils.label.getAll.invalidate();
+      utils.todo.getAll.invalidate(); // Cards show the label name and color
+      setFormDialogOpen(false);
+      setEditingLabel(null);
+    },
+    onError: (err) => {
+      toast.error(`Failed to update label: ${err.message}`);
+    },
+  });
+
+  const deleteLabel = api.label.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Label deleted!");
+      utils.label.getAll.invalidate();
+      utils.todo.getAll.invalidate();
+      setDeletingLabel(null);
+    },
+    onError: (err) => {
+      toast.error(`Failed to delete label: ${err.message}`);
+    },
+  });
+
+  // --- Form --- //
+
+  const labelForm = useForm<LabelFormData>({
+    resolver: zodResolver(labelFormSchema),
+  });
+
+  const onLabelSubmit = (data: LabelFormData) => {
+    if (editingLabel) {
+      updateLabel.mutate({ id: editingLabel.id, ...data });
+    } else {
+      createLabel.mutate(data);
+    }
+  };
+
+  const handleCreateClick = () => {
+    setEditingLabel(null);
+    labelForm.reset({
+      name: "",
+      color: LABEL_COLORS[(labels?.length ?? 0) % LABEL_COLORS.length],
+    });
+    setFormDialogOpen(true);
+  };
+
+  const handleEditClick = (label: TodoLabel) => {
+    setEditingLabel(label);
+    labelForm.reset({ name: label.name, color: label.color });
+    setFormDialogOpen(true);
+  };
+
+  const isSaving = createLabel.isPending || updateLabel.isPending;
+
+  return (
+    <>
+      <SidebarGroup>
+        <SidebarGroupLabel>Labels</SidebarGroupLabel>
+        <SidebarGroupAction title="New label" onClick={handleCreateClick}>
+          <Plus /> <span className="sr-only">New label</span>
+        </SidebarGroupAction>
+        <SidebarGroupContent>
+          <SidebarMenu>
+            {labels?.map((label) => (
+              <SidebarMenuItem key={label.id}>
+                <SidebarMenuButton onClick={() => handleEditClick(label)}>
+                  <span
+                    className="size-2 shrink-0 rounded-full"
+                    style={{ backgroundColor: label.color }}
+                  />
+                  <span>{label.name}</span>
+                </SidebarMenuButton>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <SidebarMenuAction showOnHover>
+                      <MoreHorizontal />
+                      <span className="sr-only">Label actions</span>
+                    </SidebarMenuAction>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent side="right" align="start">
+                    <DropdownMenuItem onClick={() => handleEditClick(label)}>
+                      <Pencil /> Edit
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      variant="destructive"
+                      onClick={() => setDeletingLabel(label)}
+                    >
+                      <Trash2 /> Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </SidebarMenuItem>
+            ))}
+            {labels?.length === 0 && (
+              <p className="px-2 text-muted-foreground text-xs">
+                No labels yet.
+              </p>
+            )}
+          </SidebarMenu>
+        </SidebarGroupContent>
+      </SidebarGroup>
+
+      {/* --- Create / Edit Label Dialog --- */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setFormDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <form onSubmit={labelForm.handleSubmit(onLabelSubmit)}>
+            <DialogHeader>
+              <DialogTitle>
+                {editingLabel ? "Edit Label" : "Create New Label"}
+              </DialogTitle>
+              <DialogDescription>
+                Labels categorize todos across projects and statuses.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="label-name" className="text-right">
+                  Name
+                </Label>
+                <Input
+                  id="label-name"
+                  {...labelForm.register("name")}
+                  className="col-span-3"
+                  aria-invalid={!!labelForm.formState.errors.name}
+                />
+              </div>
+              {labelForm.formState.errors.name && (
+                <p className="col-span-4 text-right text-destructive text-sm">
+                  {labelForm.formState.errors.name.message}
+                </p>
+              )}
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="label-color" className="text-right">
+                  Color
+                </Label>
+                <Input
+                  id="label-color"
+                  type="color"
+                  {...labelForm.register("color")}
+                  className="col-span-3 h-9 p-1"
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 size-4 animate-spin" />}
+                {editingLabel ? "Save Changes" : "Create Label"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* --- Delete Label Confirmation --- */}
+      <AlertDialog
+        open={deletingLabel !== null}
+        onOpenChange={(open) => !open && setDeletingLabel(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete label?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The label "{deletingLabel?.name}" will be removed from all todos.
+              The todos themselves are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction asChild>
+              <Button
+                onClick={() =>
+                  deletingLabel && deleteLabel.mutate({ id: deletingLabel.id })
+                }
+                disabled={deleteLabel.isPending}
+              >
+                {deleteLabel.isPending && (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                )}
+                Delete
+              </Button>
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { onlineManager, useIsMutating } from "@tanstack/react-query";
+import { CloudOff } from "lucide-react";
+import { OFFLINE_MUTATION_SCOPE } from "@/trpc/offline";
+
+const subscribe = (onChange: () => void) => onlineManager.subscribe(onChange);
+
+// Tells the user they're working offline and how many changes wait to be synced
+export function OfflineBanner() {
+  const isOnline = useSyncExternalStore(
+    subscribe,
+    () => onlineManager.isOnline(),
+    () => true // The server always renders the online state
+  );
+  const queued = useIsMutating({
+    predicate: (mutation) =>
+      mutation.state.isPaused &&
+      mutation.options.scope?.id === OFFLINE_MUTATION_SCOPE.id,
+  });
+
+  if (isOnline) return null;
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border border-dashed p-2 text-muted-foreground text-sm">
+      <CloudOff className="size-4 shrink-0" />
+      <span>
+        You're offline.{" "}
+        {queued > 0
+          ? `${queued} ${queued === 1 ? "change" : "changes"} will sync when you reconnect.`
+          : "Changes you make will sync when you reconnect."}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { TodoPriority } from "@prisma/client";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChevronDown,
+  ChevronsUp,
+  ChevronUp,
+  Equal,
+  type LucideIcon,
+} from "lucide-react";
+
+// Display settings per priority; NONE has no badge
+const priorityStyles: Record<
+  TodoPriority,
+  { label: string; icon?: LucideIcon; className: string }
+> = {
+  [TodoPriority.NONE]: { label: "No priority", className: "" },
+  [TodoPriority.LOW]: {
+    label: "Low",
+    icon: ChevronDown,
+    className: "text-muted-foreground",
+  },
+  [TodoPriority.MEDIUM]: {
+    label: "Medium",
+    icon: Equal,
+    className: "border-amber-500/50 text-amber-600 dark:text-amber-400",
+  },
+  [TodoPriority.HIGH]: {
+    label: "High",
+    icon: ChevronUp,
+    className: "border-orange-500/50 text-orange-600 dark:text-orange-400",
+  },
+  [TodoPriority.URGENT]: {
+    label: "Urgent",
+    icon: ChevronsUp,
+    className:
+      "border-transparent bg-destructive text-white dark:bg-destructive/60",
+  },
+};
+
+export const priorityLabel = (priority: TodoPriority) =>
+  priorityStyles[priority].label;
+
+interface PriorityBadgeProps {
+  priority: TodoPriority;
+  className?: string;
+}
+
+// Colored badge for a todo's priority; renders nothing for NONE
+export function PriorityBadge({ priority, className }: PriorityBadgeProps) {
+  if (priority === TodoPriority.NONE) return null;
+  const {
+    label,
+    icon: Icon,
+    className: styleClassName,
+  } = priorityStyles[priority];
+
+  return (
+    <Badge variant="outline" className={cn(styleClassName, className)}>
+      {Icon && <Icon />}
+      {label}
+    </Badge>
+  );
+}
+
+interface PrioritySelectProps {
+  id?: string;
+  value: TodoPriority | undefined;
+  onChange: (priority: TodoPriority) => void;
+  className?: string;
+}
+
+// Select listing priorities from most to least urgent
+export function PrioritySelect({
+  id,
+  value,
+  onChange,
+  className,
+}: PrioritySelectProps) {
+  return (
+    <Select
+      value={value ?? TodoPriority.NONE}
+      onValueChange={(priority) => onChange(priority as TodoPriority)}
+    >
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder="Priority" />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.values(TodoPriority)
+          .reverse()
+          .map((priority) => (
+            <SelectItem key={priority} value={priority}>
+              {priorityLabel(priority)}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+}
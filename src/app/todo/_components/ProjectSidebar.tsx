@@ -0,0 +1,371 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { MemberRole } from "@prisma/client";
+import { api, type RouterOutputs } from "@/trpc/react";
+import { toast } from "sonner";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogClose,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Folder,
+  Inbox,
+  Loader2,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+  Users,
+} from "lucide-react";
+import { useAuth } from "@/context/auth-context";
+import { LabelSidebarGroup } from "./LabelSidebarGroup";
+import { TrashDialog } from "./TrashDialog";
+import { ShareProjectDialog } from "./ShareProjectDialog";
+import { InvitationsSidebarGroup } from "./InvitationsSidebarGroup";
+
+type Project = RouterOutputs["project"]["getAll"][number];
+
+// Validation schema for the create/rename form
+const projectFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  description: z.string().optional(),
+});
+type ProjectFormData = z.infer<typeof projectFormSchema>;
+
+interface ProjectSidebarProps {
+  selectedProjectId: number | undefined; // undefined = all todos
+  onSelectProject: (projectId: number | undefined) => void;
+}
+
+export function ProjectSidebar({
+  selectedProjectId,
+  onSelectProject,
+}: ProjectSidebarProps) {
+  const [isFormDialogOpen, setFormDialogOpen] = useState(false);
+  const [editingProject, setEditingProject] = useState<Project | null>(null);
+  const [deletingProject, setDeletingProject] = useState<Project | null>(null);
+  const [sharingProject, setSharingProject] = useState<Project | null>(null);
+
+  const utils = api.useUtils();
+  const { user, isServerSessionReady } = useAuth();
+
+  const { data: projects, isLoading } = api.project.getAll.useQuery(
+    undefined,
+    {
+      enabled: isServerSessionReady,
+    }
+  );
+
+  // --- Mutations --- //
+
+  const createProject = api.project.create.useMutation({
+    onSuccess: (project) => {
+      toast.success(`Project "${project.name}" created!`);
+      utils.project.getAll.invalidate();
+      setFormDialogOpen(false);
+      onSelectProject(project.id); // Jump straight into the new project
+    },
+    onError: (err) => {
+      toast.error(`Failed to create project: ${err.message}`);
+    },
+  });
+
+  const updateProject = api.project.update.useMutation({
+    onSuccess: () => {
+      toast.success("Project updated!");
+      utils.project.getAll.invalidate();
+      setFormDialogOpen(false);
+      setEditingProject(null);
+    },
+    onError: (err) => {
+      toast.error(`Failed to update project: ${err.message}`);
+    },
+  });
+
+  const deleteProject = api.project.delete.useMutation({
+    onSuccess: (_, variables) => {
+      toast.success("Project deleted!");
+      utils.project.getAll.invalidate();
+      utils.todo.getAll.invalidate(); // The project's todos are gone too
+      if (selectedProjectId === variables.id) {
+        onSelectProject(undefined);
+      }
+      setDeletingProject(null);
+    },
+    onError: (err) => {
+      toast.error(`Failed to delete project: ${err.message}`);
+    },
+  });
+
+  // --- Form --- //
+
+  const projectForm = useForm<ProjectFormData>({
+    resolver: zodResolver(projectFormSchema),
+    defaultValues: {
+      name: "",
+      description: "",
+    },
+  });
+
+  const onProjectSubmit = (data: ProjectFormData) => {
+    if (editingProject) {
+      updateProject.mutate({
+        id: editingProject.id,
+        name: data.name,
+        description: data.description || null,
+      });
+    } else {
+      createProject.mutate(data);
+    }
+  };
+
+  const handleCreateClick = () => {
+    setEditingProject(null);
+    projectForm.reset({ name: "", description: "" });
+    setFormDialogOpen(true);
+  };
+
+  const handleRenameClick = (project: Project) => {
+    setEditingProject(project);
+    projectForm.reset({
+      name: project.name,
+      description: project.description ?? "",
+    });
+    setFormDialogOpen(true);
+  };
+
+  const isSaving = createProject.isPending || updateProject.isPending;
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>Projects</SidebarGroupLabel>
+            <SidebarGroupAction title="New project" onClick={handleCreateClick}>
+              <Plus /> <span className="sr-only">New project</span>
+            </SidebarGroupAction>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                <SidebarMenuItem>
+                  <SidebarMenuButton
+                    isActive={selectedProjectId === undefined}
+                    onClick={() => onSelectProject(undefined)}
+                  >
+                    <Inbox />
+                    <span>All Todos</span>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+
+                {isLoading &&
+                  [...Array(3)].map((_, i) => (
+                    <SidebarMenuItem key={i}>
+                      <SidebarMenuSkeleton showIcon />
+                    </SidebarMenuItem>
+                  ))}
+
+                {projects?.map((project) => (
+                  <SidebarMenuItem key={project.id}>
+                    <SidebarMenuButton
+                      isActive={selectedProjectId === project.id}
+                      onClick={() => onSelectProject(project.id)}
+                      tooltip={project.description ?? project.name}
+                    >
+                      <Folder />
+                      <span>{project.name}</span>
+                    </SidebarMenuButton>
+                    <SidebarMenuBadge>{project._count.todos}</SidebarMenuBadge>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <SidebarMenuAction showOnHover>
+                          <MoreHorizontal />
+                          <span className="sr-only">Project actions</span>
+                        </SidebarMenuAction>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent side="right" align="start">
+                        {project.role === MemberRole.OWNER && (
+                          <DropdownMenuItem
+                            onClick={() => handleRenameClick(project)}
+                          >
+                            <Pencil /> Edit
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuItem
+                          onClick={() => setSharingProject(project)}
+                        >
+                          <Users /> Share
+                        </DropdownMenuItem>
+                        {/* Only the creator can delete a shared project */}
+                        {project.userId === user?.uid && (
+                          <DropdownMenuItem
+                            variant="destructive"
+                            onClick={() => setDeletingProject(project)}
+                          >
+                            <Trash2 /> Delete
+                          </DropdownMenuItem>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+          <InvitationsSidebarGroup />
+          <LabelSidebarGroup />
+        </SidebarContent>
+        <SidebarFooter>
+          <SidebarMenu>
+            <SidebarMenuItem>
+              <TrashDialog />
+            </SidebarMenuItem>
+          </SidebarMenu>
+        </SidebarFooter>
+      </Sidebar>
+
+      {/* --- Create / Edit Project Dialog --- */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setFormDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <form onSubmit={projectForm.handleSubmit(onProjectSubmit)}>
+            <DialogHeader>
+              <DialogTitle>
+                {editingProject ? "Edit Project" : "Create New Project"}
+              </DialogTitle>
+              <DialogDescription>
+                Projects keep related todos together in their own list.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="project-name" className="text-right">
+                  Name
+                </Label>
+                <Input
+                  id="project-name"
+                  {...projectForm.register("name")}
+                  className="col-span-3"
+                  aria-invalid={!!projectForm.formState.errors.name}
+                />
+              </div>
+              {projectForm.formState.errors.name && (
+                <p className="col-span-4 text-right text-destructive text-sm">
+                  {projectForm.formState.errors.name.message}
+                </p>
+              )}
+              <div className="grid grid-cols-4 items-center gap-4">
+                <Label htmlFor="project-description" className="text-right">
+                  Description
+                </Label>
+                <Textarea
+                  id="project-description"
+                  {...projectForm.register("description")}
+                  className="col-span-3"
+                  placeholder="(Optional)"
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <DialogClose asChild>
+                <Button type="button" variant="outline">
+                  Cancel
+                </Button>
+              </DialogClose>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 size-4 animate-spin" />}
+                {editingProject ? "Save Changes" : "Create Project"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <ShareProjectDialog
+        project={sharingProject}
+        onOpenChange={(open) => !open && setSharingProject(null)}
+        onLeave={(projectId) => {
+          setSharingProject(null);
+          if (selectedProjectId === projectId) {
+            onSelectProject(undefined);
+          }
+        }}
+      />
+
+      {/* --- Delete Project Confirmation --- */}
+      <AlertDialog
+        open={deletingProject !== null}
+        onOpenChange={(open) => !open && setDeletingProject(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete project?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete the project "{deletingProject?.name}"
+              and all of its todos.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction asChild>
+              <Button
+                onClick={() =>
+                  deletingProject &&
+                  deleteProject.mutate({ id: deletingProject.id })
+                }
+                disabled={deleteProject.isPending}
+              >
+                {deleteProject.isPending && (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                )}
+                Delete
+              </Button>
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
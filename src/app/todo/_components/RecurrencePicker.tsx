@@ -0,0 +1,182 @@
+"use client";
+
+import { RecurrenceFrequency } from "@prisma/client";
+import { cn } from "@/lib/utils";
+import { describeRecurrence, type RecurrenceRule } from "@/lib/todo-recurrence";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Repeat } from "lucide-react";
+import { DateTimePicker } from "./DateTimePicker";
+
+const frequencyLabels: Record<RecurrenceFrequency, string> = {
+  [RecurrenceFrequency.DAILY]: "days",
+  [RecurrenceFrequency.WEEKLY]: "weeks",
+  [RecurrenceFrequency.MONTHLY]: "months",
+};
+
+type RecurrenceEnd = "never" | "date" | "count";
+
+interface RecurrenceBadgeProps {
+  todo: {
+    recurrence: RecurrenceFrequency | null;
+    recurrenceInterval: number;
+    recurrenceEndsAt: Date | null;
+    recurrenceCount: number | null;
+    occurrence: number;
+  };
+  className?: string;
+}
+
+// Repeat indicator for todo cards; renders nothing for one-off todos
+export function RecurrenceBadge({ todo, className }: RecurrenceBadgeProps) {
+  if (!todo.recurrence) return null;
+  const rule = {
+    frequency: todo.recurrence,
+    interval: todo.recurrenceInterval,
+    endsAt: todo.recurrenceEndsAt,
+    count: todo.recurrenceCount,
+  };
+
+  return (
+    <Badge
+      variant="outline"
+      className={className}
+      title={describeRecurrence(rule)}
+    >
+      <Repeat />
+      {describeRecurrence({ ...rule, endsAt: null, count: null })}
+      {todo.recurrenceCount && ` (${todo.occurrence}/${todo.recurrenceCount})`}
+    </Badge>
+  );
+}
+
+interface RecurrencePickerProps {
+  id?: string;
+  value: RecurrenceRule | null | undefined;
+  onChange: (value: RecurrenceRule | null) => void;
+  className?: string;
+}
+
+// Frequency, interval and end condition for a recurring todo
+export function RecurrencePicker({
+  id,
+  value,
+  onChange,
+  className,
+}: RecurrencePickerProps) {
+  const end: RecurrenceEnd = value?.count
+    ? "count"
+    : value?.endsAt
+      ? "date"
+      : "never";
+
+  const handleEndChange = (next: RecurrenceEnd) => {
+    if (!value) return;
+    onChange({
+      ...value,
+      endsAt: next === "date" ? (value.endsAt ?? new Date()) : null,
+      count: next === "count" ? (value.count ?? 5) : null,
+    });
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <Select
+        value={value?.frequency ?? "NONE"}
+        onValueChange={(frequency) =>
+          onChange(
+            frequency === "NONE"
+              ? null
+              : {
+                  interval: 1,
+                  ...value,
+                  frequency: frequency as RecurrenceFrequency,
+                }
+          )
+        }
+      >
+        <SelectTrigger id={id} className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="NONE">Does not repeat</SelectItem>
+          <SelectItem value={RecurrenceFrequency.DAILY}>Daily</SelectItem>
+          <SelectItem value={RecurrenceFrequency.WEEKLY}>Weekly</SelectItem>
+          <SelectItem value={RecurrenceFrequency.MONTHLY}>Monthly</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <span>Every</span>
+            <Input
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  interval: Math.max(1, Number(e.target.value) || 1),
+                })
+              }
+              className="w-20"
+              aria-label="Repeat interval"
+            />
+            <span>{frequencyLabels[value.frequency]}</span>
+          </div>
+
+          <div className="flex items-center gap-2 text-sm">
+            <span>Ends</span>
+            <Select
+              value={end}
+              onValueChange={(next) => handleEndChange(next as RecurrenceEnd)}
+            >
+              <SelectTrigger className="w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="date">On date</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+              </SelectContent>
+            </Select>
+            {end === "date" && (
+              <DateTimePicker
+                value={value.endsAt}
+                onChange={(endsAt) => onChange({ ...value, endsAt })}
+                className="flex-1"
+              />
+            )}
+            {end === "count" && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  value={value.count ?? 1}
+                  onChange={(e) =>
+                    onChange({
+                      ...value,
+                      count: Math.max(1, Number(e.target.value) || 1),
+                    })
+                  }
+                  className="w-20"
+                  aria-label="Number of occurrences"
+                />
+                <span>times</span>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
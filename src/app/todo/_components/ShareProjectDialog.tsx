@@ -0,0 +1,237 @@
+"use client";
+
+import { useState } from "react";
+import { MemberRole } from "@prisma/client";
+import { api } from "@/trpc/react";
+import { toast } from "sonner";
+import { useAuth } from "@/context/auth-context";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, LogOut, UserPlus, X } from "lucide-react";
+
+export const roleLabels: Record<MemberRole, string> = {
+  [MemberRole.VIEWER]: "Viewer",
+  [MemberRole.EDITOR]: "Editor",
+  [MemberRole.OWNER]: "Owner",
+};
+
+interface RoleSelectProps {
+  value: MemberRole;
+  onChange: (value: MemberRole) => void;
+  disabled?: boolean;
+}
+
+function RoleSelect({ value, onChange, disabled }: RoleSelectProps) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(role) => onChange(role as MemberRole)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-[110px]" aria-label="Role">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.values(MemberRole).map((role) => (
+          <SelectItem key={role} value={role}>
+            {roleLabels[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface ShareProjectDialogProps {
+  project: { id: number; name: string; role: MemberRole } | null; // null = closed
+  onOpenChange: (open: boolean) => void;
+  onLeave: (projectId: number) => void;
+}
+
+// Lists a project's members; owners can invite people, change roles and remove members
+export function ShareProjectDialog({
+  project,
+  onOpenChange,
+  onLeave,
+}: ShareProjectDialogProps) {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<MemberRole>(MemberRole.VIEWER);
+
+  const utils = api.useUtils();
+  const { user } = useAuth();
+  const isOwner = project?.role === MemberRole.OWNER;
+
+  const { data, isLoading } = api.member.list.useQuery(
+    { projectId: project?.id ?? 0 },
+    { enabled: project !== null }
+  );
+
+  const inviteMember = api.member.invite.useMutation({
+    onSuccess: () => {
+      toast.success(`Invitation sent to ${email}`);
+      utils.member.list.invalidate();
+      setEmail("");
+    },
+    onError: (err) => {
+      toast.error(`Failed to invite member: ${err.message}`);
+    },
+  });
+
+  const updateRole = api.member.updateRole.useMutation({
+    onSuccess: () => {
+      utils.member.list.invalidate();
+    },
+    onError: (err) => {
+      toast.error(`Failed to change role: ${err.message}`);
+    },
+  });
+
+  const removeMember = api.member.remove.useMutation({
+    onSuccess: (_, variables) => {
+      utils.member.list.invalidate();
+      if (variables.userId === user?.uid) {
+        toast.success("You left the project");
+        utils.project.getAll.invalidate();
+        utils.todo.getAll.invalidate(); // Its todos are no longer visible
+        onLeave(variables.projectId);
+      } else {
+        toast.success("Member removed");
+      }
+    },
+    onError: (err) => {
+      toast.error(`Failed to remove member: ${err.message}`);
+    },
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!project || !email.trim()) return;
+    inviteMember.mutate({ projectId: project.id, email, role });
+  };
+
+  return (
+    <Dialog open={project !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Share "{project?.name}"</DialogTitle>
+          <DialogDescription>
+            Viewers can see the project's todos, editors can change them and
+            owners can also manage members.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email address"
+              aria-label="Email address"
+            />
+            <RoleSelect value={role} onChange={setRole} />
+            <Button
+              type="submit"
+              size="icon"
+              disabled={!email.trim() || inviteMember.isPending}
+              title="Invite"
+            >
+              {inviteMember.isPending ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <UserPlus className="size-4" />
+              )}
+            </Button>
+          </form>
+        )}
+
+        <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+          {isLoading &&
+            [...Array(2)].map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          {data && (
+            <div className="flex items-center justify-between gap-2 rounded-md border p-2">
+              <span className="truncate text-sm">
+                {data.creator.email ?? "Unknown user"}
+              </span>
+              <Badge variant="secondary">Creator</Badge>
+            </div>
+          )}
+          {data?.members.map((member) => (
+            <div
+              key={member.id}
+              className="flex items-center justify-between gap-2 rounded-md border p-2"
+            >
+              <div className="min-w-0">
+                <p className="truncate text-sm">
+                  {member.user.email ?? "Unknown user"}
+                </p>
+                {!member.acceptedAt && (
+                  <p className="text-muted-foreground text-xs">
+                    Invitation pending
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                {isOwner ? (
+                  <RoleSelect
+                    value={member.role}
+                    onChange={(next) =>
+                      updateRole.mutate({
+                        projectId: member.projectId,
+                        userId: member.userId,
+                        role: next,
+                      })
+                    }
+                    disabled={updateRole.isPending}
+                  />
+                ) : (
+                  <Badge variant="outline">{roleLabels[member.role]}</Badge>
+                )}
+                {(isOwner || member.userId === user?.uid) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      removeMember.mutate({
+                        projectId: member.projectId,
+                        userId: member.userId,
+                      })
+                    }
+                    disabled={removeMember.isPending}
+                    title={
+                      member.userId === user?.uid ? "Leave project" : "Remove"
+                    }
+                  >
+                    {member.userId === user?.uid ? (
+                      <LogOut className="size-4" />
+                    ) : (
+                      <X className="size-4" />
+                    )}
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useRef } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { api } from "@/trpc/react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  ATTACHMENT_MIME_TYPES,
+  formatFileSize,
+  validateAttachment,
+} from "@/lib/attachments";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Download,
+  FileText,
+  Image as ImageIcon,
+  Loader2,
+  Paperclip,
+  X,
+} from "lucide-react";
+
+// Sends a file to the upload route handler; tRPC can't carry multipart bodies
+const uploadAttachment = async ({
+  todoId,
+  file,
+}: {
+  todoId: number;
+  file: File;
+}) => {
+  const body = new FormData();
+  body.append("todoId", String(todoId));
+  body.append("file", file);
+  const response = await fetch("/api/attachments", { method: "POST", body });
+  if (!response.ok) {
+    const { error } = (await response.json().catch(() => ({}))) as {
+      error?: string;
+    };
+    throw new Error(error ?? response.statusText);
+  }
+};
+
+interface TodoAttachmentsProps {
+  todoId: number;
+  className?: string;
+}
+
+// File list of a todo with upload, download and delete
+export function TodoAttachments({ todoId, className }: TodoAttachmentsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const utils = api.useUtils();
+
+  const { data: attachments, isLoading } = api.attachment.list.useQuery({
+    todoId,
+  });
+
+  // Refresh the list and the attachment counts on the cards
+  const onSettled = () => {
+    utils.attachment.list.invalidate({ todoId });
+    utils.todo.getAll.invalidate();
+  };
+
+  const upload = useMutation({
+    mutationFn: uploadAttachment,
+    onSuccess: (_, { file }) => {
+      toast.success(`Attached "${file.name}"`);
+    },
+    onError: (err) => {
+      toast.error(`Failed to upload file: ${err.message}`);
+    },
+    onSettled,
+  });
+
+  const deleteAttachment = api.attachment.delete.useMutation({
+    onError: (err) => {
+      toast.error(`Failed to delete file: ${err.message}`);
+    },
+    onSettled,
+  });
+
+  const handleFiles = (files: FileList | null) => {
+    for (const file of Array.from(files ?? [])) {
+      // Check the limits here too so big files aren't uploaded just to be rejected
+      const error = validateAttachment(file);
+      if (error) {
+        toast.error(`${file.name}: ${error}`);
+        continue;
+      }
+      upload.mutate({ todoId, file });
+    }
+    if (fileInputRef.current) fileInputRef.current.value = ""; // Allow picking the same file again
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {isLoading && <Skeleton className="h-8 w-full" />}
+      {attachments?.map((attachment) => {
+        const Icon = attachment.contentType.startsWith("image/")
+          ? ImageIcon
+          : FileText;
+        return (
+          <div
+            key={attachment.id}
+            className="flex items-center gap-2 rounded-md border px-2 py-1 text-sm"
+          >
+            <Icon className="size-4 shrink-0 text-muted-foreground" />
+            <a
+              href={`/api/attachments/${attachment.id}`}
+              target="_blank"
+              rel="noreferrer"
+              className="min-w-0 flex-1 truncate hover:underline"
+            >
+              {attachment.fileName}
+            </a>
+            <span className="shrink-0 text-muted-foreground text-xs">
+              {formatFileSize(attachment.size)}
+            </span>
+            <Button variant="ghost" size="icon" className="size-6" asChild>
+              <a
+                href={`/api/attachments/${attachment.id}?download`}
+                aria-label={`Download ${attachment.fileName}`}
+              >
+                <Download className="size-3" />
+              </a>
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="size-6"
+              onClick={() => deleteAttachment.mutate({ id: attachment.id })}
+              disabled={deleteAttachment.isPending}
+              aria-label={`Delete ${attachment.fileName}`}
+            >
+              <X className="size-3" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept={ATTACHMENT_MIME_TYPES.join(",")}
+        onChange={(e) => handleFiles(e.target.files)}
+        className="hidden"
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={upload.isPending}
+      >
+        {upload.isPending ? (
+          <Loader2 className="mr-2 size-4 animate-spin" />
+        ) : (
+          <Paperclip className="mr-2 size-4" />
+        )}
+        Attach files
+      </Button>
+    </div>
+  );
+}
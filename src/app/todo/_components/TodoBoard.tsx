@@ -0,0 +1,223 @@
+"use client";
+
+import { useState, type DragEvent } from "react";
+import { TodoStatus } from "@prisma/client";
+import type { RouterOutputs } from "@/trpc/react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { History, MessageSquare, Pencil } from "lucide-react";
+import { DueDateBadge } from "./DueDateBadge";
+import { ChecklistProgress } from "./TodoChecklist";
+import { LabelBadge } from "./LabelPicker";
+import { PriorityBadge } from "./PriorityBadge";
+import { RecurrenceBadge } from "./RecurrencePicker";
+import { AssigneeAvatar } from "./AssigneePicker";
+
+type Todo = RouterOutputs["todo"]["getAll"]["items"][number];
+
+// MIME type used to carry the dragged todo id between columns
+const TODO_DRAG_TYPE = "application/x-todo-id";
+
+interface TodoBoardProps {
+  todos: Todo[];
+  canEdit: (todo: Todo) => boolean; // False for todos the user may only view
+  onStatusChange: (id: number, status: TodoStatus) => void;
+  // Moves a todo within its column between two neighbours (null at either end)
+  onReorder: (id: number, prevId: number | null, nextId: number | null) => void;
+  onEdit: (todo: Todo) => void;
+  onShowHistory: (todo: Todo) => void;
+  onShowComments: (todo: Todo) => void;
+}
+
+// Cards in a column, top to bottom, by their manual position
+const sortColumn = (todos: Todo[]) =>
+  [...todos].sort((a, b) => a.position - b.position || a.id - b.id);
+
+// Kanban view: one column per status, cards are moved between columns by drag and drop
+export function TodoBoard({
+  todos,
+  canEdit,
+  onStatusChange,
+  onReorder,
+  onEdit,
+  onShowHistory,
+  onShowComments,
+}: TodoBoardProps) {
+  const [dropTarget, setDropTarget] = useState<TodoStatus | null>(null);
+
+  const handleDragStart = (event: DragEvent<HTMLDivElement>, todo: Todo) => {
+    event.dataTransfer.setData(TODO_DRAG_TYPE, String(todo.id));
+    event.dataTransfer.effectAllowed = "move";
+  };
+
+  const handleDragOver = (
+    event: DragEvent<HTMLDivElement>,
+    status: TodoStatus
+  ) => {
+    if (!event.dataTransfer.types.includes(TODO_DRAG_TYPE)) return;
+    event.preventDefault(); // Allow dropping
+    event.dataTransfer.dropEffect = "move";
+    setDropTarget(status);
+  };
+
+  // Drops onto a card insert above it; drops onto empty column space append to the end
+  const handleDrop = (
+    event: DragEvent<HTMLDivElement>,
+    status: TodoStatus,
+    beforeId: number | null
+  ) => {
+    event.preventDefault();
+    event.stopPropagation(); // Don't let the column handle a drop onto one of its cards
+    setDropTarget(null);
+    const id = Number(event.dataTransfer.getData(TODO_DRAG_TYPE));
+    const todo = todos.find((t) => t.id === id);
+    if (!todo || id === beforeId) return;
+
+    if (todo.status !== status) {
+      onStatusChange(id, status);
+      return;
+    }
+
+    const column = sortColumn(
+      todos.filter((t) => t.status === status && t.id !== id)
+    );
+    const nextIndex =
+      beforeId === null
+        ? column.length
+        : column.findIndex((t) => t.id === beforeId);
+    // Positions are kept per project, so the neighbours are the nearest cards of the same project
+    const sameProject = (t: Todo) => t.projectId === todo.projectId;
+    const prevId =
+      column.slice(0, nextIndex).filter(sameProject).at(-1)?.id ?? null;
+    const nextId = column.slice(nextIndex).find(sameProject)?.id ?? null;
+
+    // Skip no-op drops that leave the card where it already is
+    const currentIndex = sortColumn(
+      todos.filter((t) => t.status === status)
+    ).findIndex((t) => t.id === id);
+    if (currentIndex === nextIndex) return;
+
+    onReorder(id, prevId, nextId);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4">
+      {Object.values(TodoStatus).map((status) => {
+        const columnTodos = sortColumn(
+          todos.filter((todo) => todo.status === status)
+        );
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => handleDragOver(e, status)}
+            onDragLeave={(e) => {
+              // Ignore leave events fired when moving over child cards
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+                setDropTarget(null);
+              }
+            }}
+            onDrop={(e) => handleDrop(e, status, null)}
+            className={cn(
+              "flex w-72 shrink-0 flex-col gap-3 rounded-lg border bg-muted/40 p-3 transition-colors",
+              dropTarget === status && "border-primary bg-muted"
+            )}
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-sm">
+                {status.replace("_", " ")}
+              </h3>
+              <Badge variant="outline">{columnTodos.length}</Badge>
+            </div>
+
+            {columnTodos.map((todo) => (
+              <Card
+                key={todo.id}
+                draggable={canEdit(todo)}
+                onDragStart={(e) => handleDragStart(e, todo)}
+                onDrop={(e) => handleDrop(e, status, todo.id)}
+                className={cn(
+                  "gap-2 py-4",
+                  canEdit(todo) && "cursor-grab active:cursor-grabbing"
+                )}
+              >
+                <CardHeader className="px-4">
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle className="text-sm">{todo.title}</CardTitle>
+                    <div className="flex shrink-0 items-center">
+                      {todo.assignee && (
+                        <AssigneeAvatar
+                          assignee={todo.assignee}
+                          className="mr-1 size-5"
+                        />
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-6"
+                        onClick={() => onShowHistory(todo)}
+                        aria-label="Show history"
+                      >
+                        <History className="size-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-6"
+                        onClick={() => onShowComments(todo)}
+                        aria-label={`Show comments (${todo._count.comments})`}
+                      >
+                        <MessageSquare className="size-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="size-6"
+                        onClick={() => onEdit(todo)}
+                        disabled={!canEdit(todo)}
+                      >
+                        <Pencil className="size-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  {todo.description && (
+                    <p className="line-clamp-2 text-muted-foreground text-xs">
+                      {todo.description}
+                    </p>
+                  )}
+                  <CardDescription className="text-xs">
+                    {format(new Date(todo.createdAt), "PP")}
+                  </CardDescription>
+                  <PriorityBadge priority={todo.priority} />
+                  <RecurrenceBadge todo={todo} />
+                  <DueDateBadge todo={todo} />
+                  {todo.labels.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {todo.labels.map((label) => (
+                        <LabelBadge key={label.id} label={label} />
+                      ))}
+                    </div>
+                  )}
+                  <ChecklistProgress items={todo.checklistItems} />
+                </CardHeader>
+              </Card>
+            ))}
+
+            {columnTodos.length === 0 && (
+              <p className="rounded-md border border-dashed p-4 text-center text-muted-foreground text-xs">
+                Drop todos here
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
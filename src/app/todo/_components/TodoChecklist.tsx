@@ -0,0 +1,198 @@
+"use client";
+
+import { useState, type DragEvent, type FormEvent } from "react";
+import type { TodoChecklistItem } from "@prisma/client";
+import { api } from "@/trpc/react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { GripVertical, Plus, X } from "lucide-react";
+
+// MIME type used to carry the dragged checklist item id
+const CHECKLIST_DRAG_TYPE = "application/x-checklist-item-id";
+
+interface ChecklistProgressProps {
+  items: Pick<TodoChecklistItem, "done">[];
+  className?: string;
+}
+
+// Completion bar with a "done/total" count; renders nothing for empty checklists
+export function ChecklistProgress({
+  items,
+  className,
+}: ChecklistProgressProps) {
+  if (items.length === 0) return null;
+  const doneCount = items.filter((item) => item.done).length;
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <Progress value={(doneCount / items.length) * 100} className="flex-1" />
+      <span className="text-muted-foreground text-xs tabular-nums">
+        {doneCount}/{items.length}
+      </span>
+    </div>
+  );
+}
+
+interface TodoChecklistProps {
+  todoId: number;
+  items: TodoChecklistItem[]; // Already ordered by position
+  readOnly?: boolean; // Shows the steps without controls, e.g. for viewers
+}
+
+// Checklist section for a todo card: toggle, add, remove and drag to reorder steps
+export function TodoChecklist({
+  todoId,
+  items,
+  readOnly = false,
+}: TodoChecklistProps) {
+  const [newItemText, setNewItemText] = useState("");
+  const utils = api.useUtils();
+
+  const onSettled = () => utils.todo.getAll.invalidate();
+
+  const addItem = api.checklist.add.useMutation({
+    onSuccess: () => setNewItemText(""),
+    onError: (err) => {
+      toast.error(`Failed to add checklist item: ${err.message}`);
+    },
+    onSettled,
+  });
+
+  const toggleItem = api.checklist.toggle.useMutation({
+    onError: (err) => {
+      toast.error(`Failed to update checklist item: ${err.message}`);
+    },
+    onSettled,
+  });
+
+  const reorderItem = api.checklist.reorder.useMutation({
+    onError: (err) => {
+      toast.error(`Failed to reorder checklist: ${err.message}`);
+    },
+    onSettled,
+  });
+
+  const removeItem = api.checklist.remove.useMutation({
+    onError: (err) => {
+      toast.error(`Failed to remove checklist item: ${err.message}`);
+    },
+    onSettled,
+  });
+
+  const handleAdd = (event: FormEvent) => {
+    event.preventDefault();
+    const text = newItemText.trim();
+    if (!text) return;
+    addItem.mutate({ todoId, text });
+  };
+
+  // Dropping onto an item inserts the dragged one above it
+  const handleDrop = (event: DragEvent<HTMLLIElement>, beforeId: number) => {
+    event.preventDefault();
+    const id = Number(event.dataTransfer.getData(CHECKLIST_DRAG_TYPE));
+    if (!id || id === beforeId) return;
+
+    const rest = items.filter((item) => item.id !== id);
+    const nextIndex = rest.findIndex((item) => item.id === beforeId);
+    if (nextIndex === -1) return; // Dragged in from another checklist
+    reorderItem.mutate({
+      id,
+      prevId: rest[nextIndex - 1]?.id ?? null,
+      nextId: beforeId,
+    });
+  };
+
+  // Show the pending value while a toggle is in flight
+  const isChecked = (item: TodoChecklistItem) =>
+    toggleItem.isPending && toggleItem.variables?.id === item.id
+      ? toggleItem.variables.done
+      : item.done;
+
+  return (
+    <div className="space-y-2">
+      <ChecklistProgress
+        items={items.map((item) => ({ done: isChecked(item) }))}
+      />
+
+      {items.length > 0 && (
+        <ul className="space-y-1">
+          {items.map((item) => (
+            <li
+              key={item.id}
+              draggable={!readOnly}
+              onDragStart={(e) => {
+                e.dataTransfer.setData(CHECKLIST_DRAG_TYPE, String(item.id));
+                e.dataTransfer.effectAllowed = "move";
+              }}
+              onDragOver={(e) => {
+                if (e.dataTransfer.types.includes(CHECKLIST_DRAG_TYPE)) {
+                  e.preventDefault(); // Allow dropping
+                }
+              }}
+              onDrop={(e) => handleDrop(e, item.id)}
+              className="group flex items-center gap-2 text-sm"
+            >
+              {!readOnly && (
+                <GripVertical className="size-3 shrink-0 cursor-grab text-muted-foreground" />
+              )}
+              <Checkbox
+                id={`checklist-item-${item.id}`}
+                checked={isChecked(item)}
+                disabled={readOnly}
+                onCheckedChange={(checked) =>
+                  toggleItem.mutate({ id: item.id, done: checked === true })
+                }
+              />
+              <label
+                htmlFor={`checklist-item-${item.id}`}
+                className={cn(
+                  "flex-1 break-words",
+                  isChecked(item) && "text-muted-foreground line-through"
+                )}
+              >
+                {item.text}
+              </label>
+              {!readOnly && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-6 opacity-0 group-hover:opacity-100"
+                  onClick={() => removeItem.mutate({ id: item.id })}
+                  disabled={removeItem.isPending}
+                  aria-label="Remove checklist item"
+                >
+                  <X className="size-3" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!readOnly && (
+        <form onSubmit={handleAdd} className="flex items-center gap-1">
+          <Input
+            value={newItemText}
+            onChange={(e) => setNewItemText(e.target.value)}
+            placeholder="Add a step..."
+            className="h-8 text-sm"
+          />
+          <Button
+            type="submit"
+            variant="ghost"
+            size="icon"
+            className="size-8"
+            disabled={!newItemText.trim() || addItem.isPending}
+            aria-label="Add checklist item"
+          >
+            <Plus className="size-4" />
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { api, type RouterOutputs } from "@/trpc/react";
+import { toast } from "sonner";
+import { useAuth } from "@/context/auth-context";
+import MessageContent from "@/app/ai/_components/message-content";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Pencil, Send, Trash2 } from "lucide-react";
+import { AssigneeAvatar } from "./AssigneePicker";
+
+type Comment = RouterOutputs["comment"]["list"][number];
+
+interface TodoCommentsSheetProps {
+  todo: { id: number; title: string } | null; // null keeps the drawer closed
+  onOpenChange: (open: boolean) => void;
+}
+
+// Side drawer with a todo's discussion thread; bodies are markdown like chat messages
+export function TodoCommentsSheet({
+  todo,
+  onOpenChange,
+}: TodoCommentsSheetProps) {
+  const [draft, setDraft] = useState("");
+  const [editing, setEditing] = useState<{ id: number; body: string } | null>(
+    null
+  );
+
+  const utils = api.useUtils();
+  const { user } = useAuth();
+
+  const { data: comments, isLoading } = api.comment.list.useQuery(
+    { todoId: todo?.id ?? 0 },
+    { enabled: todo !== null }
+  );
+
+  // Refresh the thread and the comment counts on the cards
+  const refresh = () => {
+    utils.comment.list.invalidate();
+    utils.todo.getAll.invalidate();
+  };
+
+  const createComment = api.comment.create.useMutation({
+    onSuccess: () => {
+      refresh();
+      setDraft("");
+    },
+    onError: (err) => {
+      toast.error(`Failed to post comment: ${err.message}`);
+    },
+  });
+
+  const updateComment = api.comment.update.useMutation({
+    onSuccess: () => {
+      refresh();
+      setEditing(null);
+    },
+    onError: (err) => {
+      toast.error(`Failed to update comment: ${err.message}`);
+    },
+  });
+
+  const deleteComment = api.comment.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Comment deleted");
+      refresh();
+    },
+    onError: (err) => {
+      toast.error(`Failed to delete comment: ${err.message}`);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!todo || !draft.trim()) return;
+    createComment.mutate({ todoId: todo.id, body: draft });
+  };
+
+  const renderComment = (comment: Comment) => {
+    const isAuthor = comment.authorId === user?.uid;
+    const isEdited =
+      comment.updatedAt.getTime() - comment.createdAt.getTime() > 1000;
+
+    return (
+      <li key={comment.id} className="flex gap-3">
+        <AssigneeAvatar assignee={comment.author} className="mt-0.5" />
+        <div className="min-w-0 flex-1 space-y-1">
+          <div className="flex items-center gap-2 text-xs">
+            <span className="truncate font-medium">
+              {comment.author.email ?? "Unknown user"}
+            </span>
+            <span
+              className="text-muted-foreground"
+              title={format(comment.createdAt, "PPpp")}
+            >
+              {formatDistanceToNow(comment.createdAt, { addSuffix: true })}
+              {isEdited && " (edited)"}
+            </span>
+            {isAuthor && editing?.id !== comment.id && (
+              <div className="ml-auto flex">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-6"
+                  onClick={() =>
+                    setEditing({ id: comment.id, body: comment.body })
+                  }
+                  aria-label="Edit comment"
+                >
+                  <Pencil className="size-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="size-6"
+                  onClick={() => deleteComment.mutate({ id: comment.id })}
+                  disabled={deleteComment.isPending}
+                  aria-label="Delete comment"
+                >
+                  <Trash2 className="size-3" />
+                </Button>
+              </div>
+            )}
+          </div>
+          {editing?.id === comment.id ? (
+            <div className="space-y-2">
+              <Textarea
+                value={editing.body}
+                onChange={(e) =>
+                  setEditing({ ...editing, body: e.target.value })
+                }
+                rows={3}
+              />
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setEditing(null)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => updateComment.mutate(editing)}
+                  disabled={!editing.body.trim() || updateComment.isPending}
+                >
+                  {updateComment.isPending && (
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                  )}
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <MessageContent content={comment.body} />
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <Sheet open={todo !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Comments</SheetTitle>
+          <SheetDescription className="truncate">
+            {todo?.title}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4">
+          {isLoading &&
+            [...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="mb-3 h-12 w-full" />
+            ))}
+          {comments?.length === 0 && (
+            <p className="text-muted-foreground text-sm">
+              No comments yet. Start the discussion below.
+            </p>
+          )}
+          {comments && comments.length > 0 && (
+            <ul className="space-y-4">{comments.map(renderComment)}</ul>
+          )}
+        </div>
+
+        <SheetFooter>
+          <form onSubmit={handleSubmit} className="space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                // Ctrl/Cmd+Enter posts, plain Enter adds a line
+                if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+                  handleSubmit(e);
+                }
+              }}
+              placeholder="Write a comment... (Markdown supported)"
+              rows={3}
+            />
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!draft.trim() || createComment.isPending}
+            >
+              {createComment.isPending ? (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 size-4" />
+              )}
+              Comment
+            </Button>
+          </form>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
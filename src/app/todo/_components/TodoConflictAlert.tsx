@@ -0,0 +1,54 @@
+"use client";
+
+import { describeTodoField } from "@/lib/todo-conflict";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AlertCircle } from "lucide-react";
+
+interface TodoConflictAlertProps {
+  conflicts: string[]; // Edit form fields both sides changed
+  onDiscard: () => void; // Load the server's copy
+  onMerge: () => void; // Load the merged values for review
+  onOverwrite: () => void; // Save the user's values over the server's
+  isSaving?: boolean;
+}
+
+// Shown in the edit dialog when someone else saved the todo first
+export function TodoConflictAlert({
+  conflicts,
+  onDiscard,
+  onMerge,
+  onOverwrite,
+  isSaving,
+}: TodoConflictAlertProps) {
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>Someone else changed this todo</AlertTitle>
+      <AlertDescription>
+        <p>
+          {conflicts.length > 0
+            ? `You both changed the ${conflicts.map(describeTodoField).join(", ")}. Merging keeps your values for those.`
+            : "Your changes don't overlap with theirs and can be merged."}
+        </p>
+        <div className="mt-2 flex flex-wrap gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={onMerge}>
+            Merge
+          </Button>
+          <Button
+            type="button"
+            variant="destructive"
+            size="sm"
+            onClick={onOverwrite}
+            disabled={isSaving}
+          >
+            Overwrite
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={onDiscard}>
+            Discard mine
+          </Button>
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,346 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { TodoPriority, TodoStatus } from "@prisma/client";
+import { endOfDay, endOfWeek, format, startOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import type { RouterInputs } from "@/trpc/react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+  CalendarIcon,
+  UserCheck,
+  X,
+} from "lucide-react";
+import { LabelPicker } from "./LabelPicker";
+import { priorityLabel } from "./PriorityBadge";
+
+type TodoListInput = RouterInputs["todo"]["getAll"];
+type SortKey = NonNullable<TodoListInput["sortBy"]>;
+
+export interface TodoFilterState {
+  search: string;
+  status: TodoStatus | "ALL";
+  priority: TodoPriority | "ALL";
+  sortBy: SortKey;
+  sortOrder: "asc" | "desc";
+  dateField: "createdAt" | "updatedAt"; // Which timestamp the range applies to
+  dateRange: DateRange | undefined;
+  due: DuePreset;
+  labelIds: number[]; // Match todos carrying any of these labels
+  assignedToMe: boolean;
+}
+
+export const defaultTodoFilters: TodoFilterState = {
+  search: "",
+  status: "ALL",
+  priority: "ALL",
+  sortBy: "createdAt",
+  sortOrder: "desc",
+  dateField: "createdAt",
+  dateRange: undefined,
+  due: "ALL",
+  labelIds: [],
+  assignedToMe: false,
+};
+
+const sortLabels: Record<SortKey, string> = {
+  createdAt: "Created",
+  updatedAt: "Updated",
+  title: "Title",
+  status: "Status",
+  position: "Manual",
+  dueAt: "Due date",
+  priority: "Priority",
+};
+
+type DuePreset = "ALL" | "overdue" | "today" | "week";
+
+const duePresetLabels: Record<DuePreset, string> = {
+  ALL: "Any due date",
+  overdue: "Overdue",
+  today: "Due today",
+  week: "This week",
+};
+
+// True when any filter narrows the list (sorting doesn't count)
+export const hasActiveFilters = (filters: TodoFilterState) =>
+  filters.search.trim() !== "" ||
+  filters.status !== "ALL" ||
+  filters.priority !== "ALL" ||
+  filters.dateRange?.from !== undefined ||
+  filters.due !== "ALL" ||
+  filters.labelIds.length > 0 ||
+  filters.assignedToMe;
+
+// Maps the UI filter state onto the todo.getAll input
+export const toTodoListInput = (
+  filters: TodoFilterState
+): Omit<TodoListInput, "projectId" | "cursor"> => {
+  const range = filters.dateRange?.from
+    ? {
+        from: filters.dateRange.from,
+        // Make the end of the range inclusive of the whole day
+        to: filters.dateRange.to
+          ? new Date(filters.dateRange.to.getTime() + 24 * 60 * 60 * 1000 - 1)
+          : undefined,
+      }
+    : undefined;
+
+  // Day boundaries are computed here so they follow the user's timezone
+  const now = new Date();
+  const dueAt =
+    filters.due === "today"
+      ? { from: startOfDay(now), to: endOfDay(now) }
+      : filters.due === "week"
+        ? { from: startOfDay(now), to: endOfWeek(now) }
+        : undefined;
+
+  return {
+    search: filters.search.trim() || undefined,
+    status: filters.status === "ALL" ? undefined : [filters.status],
+    priority: filters.priority === "ALL" ? undefined : [filters.priority],
+    sortBy: filters.sortBy,
+    sortOrder: filters.sortOrder,
+    createdAt: filters.dateField === "createdAt" ? range : undefined,
+    updatedAt: filters.dateField === "updatedAt" ? range : undefined,
+    labelIds: filters.labelIds.length > 0 ? filters.labelIds : undefined,
+    dueAt,
+    overdue: filters.due === "overdue" || undefined,
+    assignedToMe: filters.assignedToMe || undefined,
+  };
+};
+
+interface TodoFiltersProps {
+  value: TodoFilterState;
+  onChange: (value: TodoFilterState) => void;
+}
+
+export function TodoFilters({ value, onChange }: TodoFiltersProps) {
+  // Debounce the search box so every keystroke doesn't hit the server
+  const [searchInput, setSearchInput] = useState(value.search);
+  useEffect(() => {
+    if (searchInput === value.search) return;
+    const timeout = setTimeout(
+      () => onChange({ ...value, search: searchInput }),
+      300
+    );
+    return () => clearTimeout(timeout);
+  }, [searchInput, value, onChange]);
+
+  const rangeLabel = value.dateRange?.from
+    ? value.dateRange.to
+      ? `${format(value.dateRange.from, "PP")} - ${format(value.dateRange.to, "PP")}`
+      : format(value.dateRange.from, "PP")
+    : "Any date";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input
+        value={searchInput}
+        onChange={(e) => setSearchInput(e.target.value)}
+        placeholder="Search todos..."
+        className="w-full sm:w-64"
+      />
+
+      {/* Status Filter */}
+      <Select
+        value={value.status}
+        onValueChange={(status) =>
+          onChange({ ...value, status: status as TodoFilterState["status"] })
+        }
+      >
+        <SelectTrigger className="w-[160px]">
+          <SelectValue placeholder="Status" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="ALL">All statuses</SelectItem>
+          {Object.values(TodoStatus).map((status) => (
+            <SelectItem key={status} value={status}>
+              {status.replace("_", " ")}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Priority Filter */}
+      <Select
+        value={value.priority}
+        onValueChange={(priority) =>
+          onChange({
+            ...value,
+            priority: priority as TodoFilterState["priority"],
+          })
+        }
+      >
+        <SelectTrigger className="w-[150px]">
+          <SelectValue placeholder="Priority" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="ALL">All priorities</SelectItem>
+          {Object.values(TodoPriority)
+            .reverse()
+            .map((priority) => (
+              <SelectItem key={priority} value={priority}>
+                {priorityLabel(priority)}
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+
+      {/* Label Filter */}
+      <LabelPicker
+        value={value.labelIds}
+        onChange={(labelIds) => onChange({ ...value, labelIds })}
+        allowCreate={false}
+        placeholder="Any label"
+      />
+
+      {/* Assignee Filter */}
+      <Button
+        variant={value.assignedToMe ? "secondary" : "outline"}
+        aria-pressed={value.assignedToMe}
+        onClick={() =>
+          onChange({ ...value, assignedToMe: !value.assignedToMe })
+        }
+      >
+        <UserCheck className="mr-2 size-4" /> Assigned to me
+      </Button>
+
+      {/* Due Date Filter */}
+      <Select
+        value={value.due}
+        onValueChange={(due) => onChange({ ...value, due: due as DuePreset })}
+      >
+        <SelectTrigger className="w-[150px]">
+          <SelectValue placeholder="Due" />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(duePresetLabels).map(([key, label]) => (
+            <SelectItem key={key} value={key}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Date Range Filter */}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="justify-start font-normal">
+            <CalendarIcon className="mr-2 size-4" />
+            {rangeLabel}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <div className="flex items-center gap-2 border-b p-3">
+            <Select
+              value={value.dateField}
+              onValueChange={(dateField) =>
+                onChange({
+                  ...value,
+                  dateField: dateField as TodoFilterState["dateField"],
+                })
+              }
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="createdAt">Created</SelectItem>
+                <SelectItem value="updatedAt">Updated</SelectItem>
+              </SelectContent>
+            </Select>
+            {value.dateRange && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onChange({ ...value, dateRange: undefined })}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+          <Calendar
+            mode="range"
+            selected={value.dateRange}
+            onSelect={(dateRange) => onChange({ ...value, dateRange })}
+            numberOfMonths={2}
+          />
+        </PopoverContent>
+      </Popover>
+
+      {/* Sorting */}
+      <Select
+        value={value.sortBy}
+        onValueChange={(sortBy) =>
+          onChange({
+            ...value,
+            sortBy: sortBy as SortKey,
+            // Manual order reads top to bottom
+            sortOrder: sortBy === "position" ? "asc" : value.sortOrder,
+          })
+        }
+      >
+        <SelectTrigger className="w-[140px]">
+          <SelectValue placeholder="Sort by" />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(sortLabels).map(([key, label]) => (
+            <SelectItem key={key} value={key}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="outline"
+        size="icon"
+        title={value.sortOrder === "asc" ? "Ascending" : "Descending"}
+        onClick={() =>
+          onChange({
+            ...value,
+            sortOrder: value.sortOrder === "asc" ? "desc" : "asc",
+          })
+        }
+      >
+        {value.sortOrder === "asc" ? (
+          <ArrowUpNarrowWide className="size-4" />
+        ) : (
+          <ArrowDownWideNarrow className="size-4" />
+        )}
+      </Button>
+
+      {hasActiveFilters(value) && (
+        <Button
+          variant="ghost"
+          onClick={() => {
+            setSearchInput("");
+            onChange({
+              ...defaultTodoFilters,
+              sortBy: value.sortBy,
+              sortOrder: value.sortOrder,
+            });
+          }}
+        >
+          <X className="mr-2 size-4" /> Reset
+        </Button>
+      )}
+    </div>
+  );
+}
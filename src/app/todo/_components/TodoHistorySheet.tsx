@@ -0,0 +1,93 @@
+"use client";
+
+import { format, formatDistanceToNow } from "date-fns";
+import { api } from "@/trpc/react";
+import { describeTodoEvent } from "@/lib/todo-activity";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2 } from "lucide-react";
+
+const HISTORY_PAGE_SIZE = 20;
+
+interface TodoHistorySheetProps {
+  todo: { id: number; title: string } | null; // null keeps the drawer closed
+  onOpenChange: (open: boolean) => void;
+}
+
+// Side drawer listing every recorded change of a todo, newest first
+export function TodoHistorySheet({
+  todo,
+  onOpenChange,
+}: TodoHistorySheetProps) {
+  const { data, isLoading, fetchNextPage, hasNextPage, isFetchingNextPage } =
+    api.activity.list.useInfiniteQuery(
+      { todoId: todo?.id, limit: HISTORY_PAGE_SIZE },
+      {
+        enabled: todo !== null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor,
+      }
+    );
+  const events = data?.pages.flatMap((page) => page.items);
+
+  return (
+    <Sheet open={todo !== null} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription className="truncate">
+            {todo?.title}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 space-y-4 overflow-y-auto px-4 pb-4">
+          {isLoading &&
+            [...Array(4)].map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          {events?.length === 0 && (
+            <p className="text-muted-foreground text-sm">
+              No changes recorded yet.
+            </p>
+          )}
+          {events && events.length > 0 && (
+            <ol className="space-y-3 border-l pl-4">
+              {events.map((event) => (
+                <li key={event.id} className="relative">
+                  <span className="-left-[21px] absolute top-1.5 size-2 rounded-full bg-primary" />
+                  <p className="text-sm">{describeTodoEvent(event)}</p>
+                  <p
+                    className="text-muted-foreground text-xs"
+                    title={format(event.createdAt, "PPpp")}
+                  >
+                    {formatDistanceToNow(event.createdAt, { addSuffix: true })}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+          {hasNextPage && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage && (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              )}
+              Load older changes
+            </Button>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,12 +1,19 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { api } from "@/trpc/react";
+import { api, type RouterOutputs } from "@/trpc/react";
 import { toast } from "sonner";
-import { TodoStatus, type Todo } from "@prisma/client";
+import {
+  MemberRole,
+  RecurrenceFrequency,
+  TodoPriority,
+  TodoStatus,
+  type Todo,
+} from "@prisma/client";
 import { format } from "date-fns";
 import {
   Card,
@@ -49,20 +56,78 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Pencil, PlusCircle, Trash2, Loader2, FileWarning } from "lucide-react";
+import {
+  Pencil,
+  PlusCircle,
+  Trash2,
+  Loader2,
+  FileWarning,
+  LayoutGrid,
+  Columns3,
+  History,
+  MessageSquare,
+  Paperclip,
+} from "lucide-react";
 import { Badge } from "@/components/ui/badge"; // For status display
 import { useAuth } from "@/context/auth-context"; // <-- Import useAuth
+import { keepPreviousData, onlineManager } from "@tanstack/react-query";
+import { isConflictError, notifyConflict } from "@/trpc/offline";
+import { mergeTodoEdits } from "@/lib/todo-conflict";
+import {
+  TodoFilters,
+  defaultTodoFilters,
+  hasActiveFilters,
+  toTodoListInput,
+  type TodoFilterState,
+} from "./TodoFilters";
+import { TodoBoard } from "./TodoBoard";
+import { OfflineBanner } from "./OfflineBanner";
+import { TodoConflictAlert } from "./TodoConflictAlert";
+import { TodoTransferDialog } from "./TodoTransferDialog";
+import { MAX_BULK_TODOS } from "@/lib/todo-bulk";
+import { positionBetween } from "@/lib/todo-position";
+import { DateTimePicker } from "./DateTimePicker";
+import { DueDateBadge } from "./DueDateBadge";
+import { TodoChecklist } from "./TodoChecklist";
+import { LabelBadge, LabelPicker } from "./LabelPicker";
+import { PriorityBadge, PrioritySelect } from "./PriorityBadge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { BulkActionBar } from "./BulkActionBar";
+import { TodoHistorySheet } from "./TodoHistorySheet";
+import { TodoCommentsSheet } from "./TodoCommentsSheet";
+import { TodoAttachments } from "./TodoAttachments";
+import { RecurrenceBadge, RecurrencePicker } from "./RecurrencePicker";
+import { AssigneePicker } from "./AssigneePicker";
 
 // Validation schemas for forms
 const todoFormSchema = z.object({
   title: z.string().min(1, "Title is required"),
   description: z.string().optional(),
+  dueAt: z.date().nullable().optional(),
+  remindAt: z.date().nullable().optional(),
+  labelIds: z.array(z.number()).optional(),
+  priority: z.nativeEnum(TodoPriority).optional(),
 });
 type TodoFormData = z.infer<typeof todoFormSchema>;
 
 const todoEditFormSchema = z.object({
   title: z.string().min(1, "Title is required").optional(), // Optional for update
   description: z.string().nullable().optional(), // Allow clearing
+  projectId: z.number().nullable().optional(), // null = no project
+  dueAt: z.date().nullable().optional(), // null clears the due date
+  remindAt: z.date().nullable().optional(), // null clears the reminder
+  labelIds: z.array(z.number()).optional(), // Replaces the user's own labels on the todo
+  priority: z.nativeEnum(TodoPriority).optional(),
+  recurrence: z
+    .object({
+      frequency: z.nativeEnum(RecurrenceFrequency),
+      interval: z.number().int().min(1),
+      endsAt: z.date().nullable().optional(),
+      count: z.number().int().min(1).nullable().optional(),
+    })
+    .nullable()
+    .optional(), // null stops the todo from repeating
 });
 type TodoEditFormData = z.infer<typeof todoEditFormSchema>;
 
@@ -85,33 +150,183 @@ const getStatusVariant = (
   }
 };
 
-export function TodoList() {
+type TodoItem = RouterOutputs["todo"]["getAll"]["items"][number];
+
+// Labels are per user, so the form only shows and edits the user's own labels of a todo
+const ownLabelIds = (todo: TodoItem, userId: string | undefined) =>
+  todo.labels
+    .filter((label) => label.userId === userId)
+    .map((label) => label.id);
+
+const isSameIdSet = (a: number[], b: number[]) =>
+  a.length === b.length && a.every((id) => b.includes(id));
+
+// Values of the edit form for a todo, also used to merge conflicting edits
+const toEditFormValues = (
+  todo: TodoItem,
+  userId: string | undefined
+): TodoEditFormData => ({
+  title: todo.title,
+  description: todo.description,
+  projectId: todo.projectId,
+  dueAt: todo.dueAt,
+  remindAt: todo.remindAt,
+  labelIds: ownLabelIds(todo, userId),
+  priority: todo.priority,
+  recurrence: todo.recurrence
+    ? {
+        frequency: todo.recurrence,
+        interval: todo.recurrenceInterval,
+        endsAt: todo.recurrenceEndsAt,
+        count: todo.recurrenceCount,
+      }
+    : null,
+});
+
+const TODOS_PAGE_SIZE = 24; // Divisible by the 2- and 3-column grid layouts
+
+interface TodoListProps {
+  projectId?: number; // Selected project; undefined shows every todo
+}
+
+export function TodoList({ projectId }: TodoListProps) {
   const [isCreateDialogOpen, setCreateDialogOpen] = useState(false);
   const [isEditDialogOpen, setEditDialogOpen] = useState(false);
-  const [editingTodo, setEditingTodo] = useState<Todo | null>(null);
+  const [editingTodo, setEditingTodo] = useState<TodoItem | null>(null);
+  // Set when saving the edit dialog hit a newer version on the server
+  const [editConflict, setEditConflict] = useState<{
+    server: TodoItem;
+    mine: TodoEditFormData;
+  } | null>(null);
+  const [filters, setFilters] = useState<TodoFilterState>(defaultTodoFilters);
+  const [view, setView] = useState<"list" | "board">("list");
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [historyTodo, setHistoryTodo] = useState<TodoItem | null>(null);
+  const [commentsTodo, setCommentsTodo] = useState<TodoItem | null>(null);
 
   const utils = api.useUtils();
-  const { isServerSessionReady } = useAuth(); // <-- Get session ready state
+  const { user, isServerSessionReady } = useAuth(); // <-- Get session ready state
+
+  // Scope the list to the selected project and the active filters
+  const listInput = {
+    projectId,
+    limit: TODOS_PAGE_SIZE,
+    ...toTodoListInput(filters),
+  };
 
   // Fetch Todos Query - enable only when server session is ready
   const {
-    data: todos,
+    data,
     isLoading,
     error,
-  } = api.todo.getAll.useQuery(
-    undefined, // No input needed for getAll
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = api.todo.getAll.useInfiniteQuery(
+    listInput,
     {
       enabled: isServerSessionReady, // <-- Conditionally enable query
+      getNextPageParam: (lastPage) => lastPage.nextCursor,
+      placeholderData: keepPreviousData, // Keep showing the old list while filters change
+    }
+  );
+  const todos = data?.pages.flatMap((page) => page.items);
+
+  // Patch the list with changes made in other tabs or by other project members
+  api.todo.onChange.useSubscription(undefined, {
+    enabled: isServerSessionReady,
+    onData: (change) => {
+      let patched = false;
+      utils.todo.getAll.setInfiniteData(listInput, (current) => {
+        if (!current) return current;
+        return {
+          ...current,
+          pages: current.pages.map((page) => ({
+            ...page,
+            items: page.items.flatMap((item) => {
+              if (item.id !== change.id) return [item];
+              patched = true;
+              return change.todo ? [change.todo] : []; // Deleted todos drop out
+            }),
+          })),
+        };
+      });
+      // Where a new todo belongs depends on the filters and sorting, so let the server decide
+      if (!patched && change.todo) {
+        utils.todo.getAll.invalidate();
+      }
+      if (change.type !== "updated") {
+        utils.project.getAll.invalidate(); // Refresh project todo counts
+      }
+    },
+  });
+  // Only act on selected todos that are still in the (filtered) list
+  const visibleSelectedIds = (todos ?? [])
+    .filter((todo) => selectedIds.has(todo.id))
+    .map((todo) => todo.id);
+
+  const toggleSelected = (id: number, selected: boolean) => {
+    if (selected && visibleSelectedIds.length >= MAX_BULK_TODOS) {
+      toast.info(`Bulk actions take at most ${MAX_BULK_TODOS} todos at a time.`);
+      return;
+    }
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (selected) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  // Selects the loaded todos, up to the bulk action limit
+  const selectAll = (ids: number[]) => {
+    if (ids.length > MAX_BULK_TODOS) {
+      toast.info(
+        `Selected the first ${MAX_BULK_TODOS} todos; bulk actions take at most ${MAX_BULK_TODOS} at a time.`
+      );
     }
+    setSelectedIds(new Set(ids.slice(0, MAX_BULK_TODOS)));
+  };
+
+  // Projects for the "move to project" select in the edit dialog
+  const { data: projects } = api.project.getAll.useQuery(undefined, {
+    enabled: isServerSessionReady,
+  });
+  // Todos in projects shared with the user as a viewer are read-only
+  const viewOnlyProjectIds = new Set(
+    projects
+      ?.filter((project) => project.role === MemberRole.VIEWER)
+      .map((project) => project.id)
   );
+  const canEdit = (todo: { projectId: number | null }) =>
+    todo.projectId === null || !viewOnlyProjectIds.has(todo.projectId);
+  // Bulk actions all edit, so only editable todos can be selected
+  const selectableTodos = (todos ?? []).filter(canEdit);
 
   // --- Mutations --- //
 
+  // Edits must match the server's version; offline ones are checked when replayed
+  const preconditionFor = (todo: TodoItem | undefined) =>
+    todo ? { version: todo.version } : {};
+
+  // Offline mutations wait for the network, so close the form right away instead
+  const queuedOffline = (message: string) => {
+    if (onlineManager.isOnline()) return false;
+    toast.info(`${message} It will sync when you're back online.`);
+    return true;
+  };
+
   // Create Todo Mutation
   const createTodo = api.todo.create.useMutation({
+    onMutate: () => {
+      if (queuedOffline("Todo saved offline.")) {
+        setCreateDialogOpen(false);
+      }
+    },
     onSuccess: () => {
       toast.success("Todo created successfully!");
       utils.todo.getAll.invalidate(); // Refetch todos
+      utils.project.getAll.invalidate(); // Refresh project todo counts
       setCreateDialogOpen(false); // Close dialog
     },
     onError: (err) => {
@@ -119,38 +334,211 @@ export function TodoList() {
     },
   });
 
-  // Update Status Mutation
+  // Patches one todo in the cached list and returns the previous data for rollback
+  const patchCachedTodo = async (id: number, patch: Partial<Todo>) => {
+    // Stop in-flight refetches from overwriting the optimistic update
+    await utils.todo.getAll.cancel();
+    const previous = utils.todo.getAll.getInfiniteData(listInput);
+    utils.todo.getAll.setInfiniteData(listInput, (old) =>
+      old
+        ? {
+            ...old,
+            pages: old.pages.map((page) => ({
+              ...page,
+              items: page.items.map((todo) =>
+                todo.id === id ? { ...todo, ...patch } : todo
+              ),
+            })),
+          }
+        : old
+    );
+    return { previous };
+  };
+
+  // Finds a cached todo's position for optimistic reordering
+  const cachedPosition = (id: number | null) =>
+    id === null ? undefined : todos?.find((t) => t.id === id)?.position;
+
+  // Update Status Mutation - applied optimistically so board moves feel instant
   const updateStatus = api.todo.updateStatus.useMutation({
-    onSuccess: (_, variables) => {
+    onMutate: (variables) => {
+      // The server puts the todo on top of its project's new column
+      const projectId = todos?.find((t) => t.id === variables.id)?.projectId;
+      const columnPositions = (todos ?? [])
+        .filter(
+          (t) => t.status === variables.status && t.projectId === projectId
+        )
+        .map((t) => t.position);
+      return patchCachedTodo(variables.id, {
+        status: variables.status,
+        // The server bumps the version, so a quick second move isn't a conflict
+        ...(variables.version !== undefined && {
+          version: variables.version + 1,
+        }),
+        position: positionBetween(
+          undefined,
+          columnPositions.length > 0 ? Math.min(...columnPositions) : undefined
+        ),
+      });
+    },
+    onSuccess: (result, variables) => {
       toast.success(`Todo status updated to ${variables.status}`);
-      utils.todo.getAll.invalidate();
+      if (result.nextOccurrenceId) {
+        toast.success("Next occurrence scheduled");
+      }
     },
-    onError: (err) => {
+    onError: (err, variables, context) => {
+      // Roll back to the snapshot taken before the optimistic update
+      if (context?.previous) {
+        utils.todo.getAll.setInfiniteData(listInput, context.previous);
+      }
+      if (isConflictError(err)) {
+        notifyConflict(err.message, () =>
+          updateStatus.mutate({ ...variables, version: undefined })
+        );
+        return;
+      }
       toast.error(`Failed to update status: ${err.message}`);
     },
+    onSettled: () => {
+      utils.todo.getAll.invalidate();
+    },
+  });
+
+  // Reorder Mutation - moves a todo between two neighbours in its column
+  const reorderTodo = api.todo.reorder.useMutation({
+    onMutate: (variables) => {
+      const version = todos?.find((t) => t.id === variables.id)?.version;
+      return patchCachedTodo(variables.id, {
+        position: positionBetween(
+          cachedPosition(variables.prevId),
+          cachedPosition(variables.nextId)
+        ),
+        // Moving counts as an edit, so the next change is made on the new version
+        ...(version !== undefined && { version: version + 1 }),
+      });
+    },
+    onError: (err, _, context) => {
+      if (context?.previous) {
+        utils.todo.getAll.setInfiniteData(listInput, context.previous);
+      }
+      toast.error(`Failed to reorder todo: ${err.message}`);
+    },
+    onSettled: () => {
+      utils.todo.getAll.invalidate();
+    },
   });
 
-  // Update Details Mutation
+  // Update Details Mutation - applied optimistically while offline
   const updateDetails = api.todo.updateDetails.useMutation({
+    onMutate: ({
+      id,
+      title,
+      description,
+      projectId,
+      dueAt,
+      remindAt,
+      priority,
+      version,
+    }) => {
+      if (!queuedOffline("Changes saved offline.")) return;
+      setEditDialogOpen(false);
+      setEditingTodo(null);
+      // Unchanged fields are sent as undefined and must not clear the cached values
+      const patch = Object.fromEntries(
+        Object.entries({
+          title,
+          description,
+          projectId,
+          dueAt,
+          remindAt,
+          priority,
+          // The replay bumps the version, so a further queued edit is made on the next one
+          version: version === undefined ? undefined : version + 1,
+        }).filter(([, value]) => value !== undefined)
+      );
+      return patchCachedTodo(id, patch);
+    },
     onSuccess: () => {
       toast.success("Todo details updated!");
       utils.todo.getAll.invalidate();
+      utils.project.getAll.invalidate();
       setEditDialogOpen(false);
       setEditingTodo(null);
     },
-    onError: (err) => {
+    onError: (err, variables, context) => {
+      if (context?.previous) {
+        utils.todo.getAll.setInfiniteData(listInput, context.previous);
+      }
+      const server = err.data?.todoConflict;
+      if (server && editingTodo?.id === server.id) {
+        // Keep the dialog open and let the user merge or overwrite
+        setEditConflict({ server, mine: editForm.getValues() });
+        return;
+      }
+      if (isConflictError(err)) {
+        notifyConflict(err.message, () =>
+          updateDetails.mutate({ ...variables, version: undefined })
+        );
+        return;
+      }
       toast.error(`Failed to update details: ${err.message}`);
     },
   });
 
-  // Delete Todo Mutation
+  // Delete Todo Mutation - hidden right away while offline
   const deleteTodo = api.todo.delete.useMutation({
+    onMutate: async ({ id }) => {
+      if (!queuedOffline("Todo deleted offline.")) return;
+      await utils.todo.getAll.cancel();
+      const previous = utils.todo.getAll.getInfiniteData(listInput);
+      utils.todo.getAll.setInfiniteData(listInput, (old) =>
+        old
+          ? {
+              ...old,
+              pages: old.pages.map((page) => ({
+                ...page,
+                items: page.items.filter((todo) => todo.id !== id),
+              })),
+            }
+          : old
+      );
+      return { previous };
+    },
+    onSuccess: (_, variables) => {
+      toast.success("Todo moved to trash", {
+        action: {
+          label: "Undo",
+          onClick: () => restoreTodo.mutate({ id: variables.id }),
+        },
+      });
+      utils.todo.getAll.invalidate();
+      utils.project.getAll.invalidate();
+    },
+    onError: (err, variables, context) => {
+      if (context?.previous) {
+        utils.todo.getAll.setInfiniteData(listInput, context.previous);
+      }
+      if (isConflictError(err)) {
+        notifyConflict(err.message, () =>
+          deleteTodo.mutate({ ...variables, version: undefined })
+        );
+        return;
+      }
+      toast.error(`Failed to delete todo: ${err.message}`);
+    },
+  });
+
+  // Restore Todo Mutation - backs the "Undo" action of the delete toast
+  const restoreTodo = api.todo.restore.useMutation({
     onSuccess: () => {
-      toast.success("Todo deleted successfully!");
+      toast.success("Todo restored!");
       utils.todo.getAll.invalidate();
+      utils.todo.listTrash.invalidate();
+      utils.project.getAll.invalidate();
     },
     onError: (err) => {
-      toast.error(`Failed to delete todo: ${err.message}`);
+      toast.error(`Failed to restore todo: ${err.message}`);
     },
   });
 
@@ -162,11 +550,15 @@ export function TodoList() {
     defaultValues: {
       title: "",
       description: "",
+      dueAt: null,
+      remindAt: null,
+      labelIds: [],
+      priority: TodoPriority.NONE,
     },
   });
 
   const onCreateSubmit = (data: TodoFormData) => {
-    createTodo.mutate(data);
+    createTodo.mutate({ ...data, projectId });
   };
 
   // Edit Form
@@ -174,26 +566,224 @@ export function TodoList() {
     resolver: zodResolver(todoEditFormSchema),
   });
 
-  const onEditSubmit = (data: TodoEditFormData) => {
-    if (!editingTodo) return;
+  // Saves the form; `base` is the copy of the todo the values were edited from
+  const saveEdit = (base: TodoItem, data: TodoEditFormData) => {
     updateDetails.mutate({
-      id: editingTodo.id,
+      id: base.id,
+      ...preconditionFor(base),
       // Only send fields if they have values (or are null for description)
       title: data.title || undefined,
       description:
         data.description !== undefined ? data.description : undefined,
+      projectId: data.projectId,
+      dueAt: data.dueAt,
+      remindAt: data.remindAt,
+      // Unchanged labels are left out so the edit doesn't overwrite newer label changes
+      labelIds:
+        data.labelIds &&
+        !isSameIdSet(data.labelIds, ownLabelIds(base, user?.uid))
+          ? data.labelIds
+          : undefined,
+      priority: data.priority,
+      recurrence: data.recurrence,
     });
   };
 
+  const onEditSubmit = (data: TodoEditFormData) => {
+    if (!editingTodo) return;
+    saveEdit(editingTodo, data);
+  };
+
+  // Continues editing from the server's copy with the given form values
+  const rebaseEdit = (server: TodoItem, values: TodoEditFormData) => {
+    setEditingTodo(server);
+    editForm.reset(values);
+    setEditConflict(null);
+  };
+
+  const handleMergeConflict = () => {
+    if (!editingTodo || !editConflict) return;
+    const { merged } = mergeTodoEdits(
+      toEditFormValues(editingTodo, user?.uid),
+      editConflict.mine,
+      toEditFormValues(editConflict.server, user?.uid)
+    );
+    rebaseEdit(editConflict.server, merged); // Saved once the user has reviewed it
+  };
+
+  const handleOverwriteConflict = () => {
+    if (!editConflict) return;
+    rebaseEdit(editConflict.server, editConflict.mine);
+    saveEdit(editConflict.server, editConflict.mine);
+  };
+
   // Helper function to open edit dialog
-  const handleEditClick = (todo: Todo) => {
+  const handleEditClick = (todo: TodoItem) => {
     setEditingTodo(todo);
-    editForm.reset({ title: todo.title, description: todo.description });
+    setEditConflict(null);
+    editForm.reset(toEditFormValues(todo, user?.uid));
     setEditDialogOpen(true);
   };
 
+  // Todo linked from the search palette: /todo?todo=<id>, plus &open=comments for comment results
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const linkedTodoId = Number(searchParams.get("todo")) || null;
+  const { data: linkedTodo, error: linkedTodoError } =
+    api.todo.getById.useQuery(
+      { id: linkedTodoId ?? 0 },
+      {
+        enabled: isServerSessionReady && linkedTodoId !== null,
+        retry: false,
+      }
+    );
+
+  // Open the linked todo once it has loaded, then drop the link so it isn't opened again
+  useEffect(() => {
+    if (linkedTodoError) {
+      toast.error(`Failed to open todo: ${linkedTodoError.message}`);
+    } else if (!linkedTodo) {
+      return;
+    } else if (searchParams.get("open") === "comments") {
+      setCommentsTodo(linkedTodo);
+    } else {
+      setEditingTodo(linkedTodo);
+      setEditConflict(null);
+      editForm.reset(toEditFormValues(linkedTodo, user?.uid));
+      setEditDialogOpen(true);
+    }
+    router.replace("/todo", { scroll: false });
+  }, [
+    linkedTodo,
+    linkedTodoError,
+    searchParams,
+    router,
+    editForm,
+    user?.uid,
+  ]);
+
   // --- Render Logic --- //
 
+  // Import/export dialog; exports follow the list's filters, imports go to the selected project
+  const transferDialog = (
+    <TodoTransferDialog
+      exportInput={{ projectId, ...toTodoListInput(filters) }}
+      projectId={projectId}
+    />
+  );
+
+  // Create dialog, shared by the empty state and the main list
+  const createTodoDialog = (
+    <Dialog open={isCreateDialogOpen} onOpenChange={setCreateDialogOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <PlusCircle className="mr-2 size-4" /> Add New Todo
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={createForm.handleSubmit(onCreateSubmit)}>
+          <DialogHeader>
+            <DialogTitle>Create New Todo</DialogTitle>
+            <DialogDescription>
+              Fill in the details for your new task.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="title" className="text-right">
+                Title
+              </Label>
+              <Input
+                id="title"
+                {...createForm.register("title")}
+                className="col-span-3"
+                aria-invalid={!!createForm.formState.errors.title}
+              />
+            </div>
+            {createForm.formState.errors.title && (
+              <p className="col-span-4 text-right text-sm text-destructive">
+                {createForm.formState.errors.title.message}
+              </p>
+            )}
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="description" className="text-right">
+                Description
+              </Label>
+              <Textarea
+                id="description"
+                {...createForm.register("description")}
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="priority" className="text-right">
+                Priority
+              </Label>
+              <PrioritySelect
+                id="priority"
+                value={createForm.watch("priority")}
+                onChange={(priority) =>
+                  createForm.setValue("priority", priority)
+                }
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="dueAt" className="text-right">
+                Due
+              </Label>
+              <DateTimePicker
+                id="dueAt"
+                value={createForm.watch("dueAt")}
+                onChange={(date) => createForm.setValue("dueAt", date)}
+                placeholder="No due date"
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="remindAt" className="text-right">
+                Remind
+              </Label>
+              <DateTimePicker
+                id="remindAt"
+                value={createForm.watch("remindAt")}
+                onChange={(date) => createForm.setValue("remindAt", date)}
+                placeholder="No reminder"
+                className="col-span-3"
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="labels" className="text-right">
+                Labels
+              </Label>
+              <LabelPicker
+                id="labels"
+                value={createForm.watch("labelIds") ?? []}
+                onChange={(labelIds) =>
+                  createForm.setValue("labelIds", labelIds)
+                }
+                className="col-span-3"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">
+                Cancel
+              </Button>
+            </DialogClose>
+            <Button type="submit" disabled={createTodo.isPending}>
+              {createTodo.isPending && (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              )}
+              Save Todo
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+
   // Display loading skeleton ONLY if the query is enabled and actually loading
   if (isLoading && isServerSessionReady) {
     return (
@@ -243,242 +833,297 @@ export function TodoList() {
   }
 
   // Check for empty state *after* session is ready and query hasn't errored
-  if (isServerSessionReady && todos?.length === 0) {
+  if (
+    isServerSessionReady &&
+    todos?.length === 0 &&
+    !hasActiveFilters(filters)
+  ) {
     return (
       <div className="flex flex-col items-center justify-center gap-4 rounded-md border border-dashed p-8 text-center">
         <FileWarning className="size-10 text-muted-foreground" />
         <h3 className="text-xl font-semibold">No Todos Yet!</h3>
         <p className="text-muted-foreground">
-          Click the button below to add your first todo.
+          Click the button below to add your first todo, or import them from
+          another tool.
         </p>
-        <Dialog open={isCreateDialogOpen} onOpenChange={setCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <PlusCircle className="mr-2 size-4" /> Add New Todo
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[425px]">
-            <form onSubmit={createForm.handleSubmit(onCreateSubmit)}>
-              <DialogHeader>
-                <DialogTitle>Create New Todo</DialogTitle>
-                <DialogDescription>
-                  Fill in the details for your new task.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="grid gap-4 py-4">
-                <div className="grid grid-cols-4 items-center gap-4">
-                  <Label htmlFor="title" className="text-right">
-                    Title
-                  </Label>
-                  <Input
-                    id="title"
-                    {...createForm.register("title")}
-                    className="col-span-3"
-                    aria-invalid={!!createForm.formState.errors.title}
-                  />
-                </div>
-                {createForm.formState.errors.title && (
-                  <p className="col-span-4 text-right text-sm text-destructive">
-                    {createForm.formState.errors.title.message}
-                  </p>
-                )}
-                <div className="grid grid-cols-4 items-center gap-4">
-                  <Label htmlFor="description" className="text-right">
-                    Description
-                  </Label>
-                  <Textarea
-                    id="description"
-                    {...createForm.register("description")}
-                    className="col-span-3"
-                  />
-                </div>
-              </div>
-              <DialogFooter>
-                <DialogClose asChild>
-                  <Button type="button" variant="outline">
-                    Cancel
-                  </Button>
-                </DialogClose>
-                <Button type="submit" disabled={createTodo.isPending}>
-                  {createTodo.isPending && (
-                    <Loader2 className="mr-2 size-4 animate-spin" />
-                  )}
-                  Save Todo
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+        <div className="flex flex-wrap justify-center gap-2">
+          {createTodoDialog}
+          {transferDialog}
+        </div>
       </div>
     );
   }
 
-  // Render todo list only if session is ready and todos exist
-  if (isServerSessionReady && todos && todos.length > 0) {
+  // Render todo list only if session is ready and todos exist (or are filtered out)
+  if (isServerSessionReady && todos) {
     return (
       <div className="space-y-6">
+        <OfflineBanner />
+
         {/* --- Add Todo Button & Dialog (Main) --- */}
-        <Dialog open={isCreateDialogOpen} onOpenChange={setCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <PlusCircle className="mr-2 size-4" /> Add New Todo
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-[425px]">
-            <form onSubmit={createForm.handleSubmit(onCreateSubmit)}>
-              <DialogHeader>
-                <DialogTitle>Create New Todo</DialogTitle>
-                <DialogDescription>
-                  Fill in the details for your new task.
-                </DialogDescription>
-              </DialogHeader>
-              <div className="grid gap-4 py-4">
-                <div className="grid grid-cols-4 items-center gap-4">
-                  <Label htmlFor="title" className="text-right">
-                    Title
-                  </Label>
-                  <Input
-                    id="title"
-                    {...createForm.register("title")}
-                    className="col-span-3"
-                    aria-invalid={!!createForm.formState.errors.title}
-                  />
-                </div>
-                {createForm.formState.errors.title && (
-                  <p className="col-span-4 text-right text-sm text-destructive">
-                    {createForm.formState.errors.title.message}
-                  </p>
-                )}
-                <div className="grid grid-cols-4 items-center gap-4">
-                  <Label htmlFor="description" className="text-right">
-                    Description
-                  </Label>
-                  <Textarea
-                    id="description"
-                    {...createForm.register("description")}
-                    className="col-span-3"
-                  />
-                </div>
-              </div>
-              <DialogFooter>
-                <DialogClose asChild>
-                  <Button type="button" variant="outline">
-                    Cancel
-                  </Button>
-                </DialogClose>
-                <Button type="submit" disabled={createTodo.isPending}>
-                  {createTodo.isPending && (
-                    <Loader2 className="mr-2 size-4 animate-spin" />
-                  )}
-                  Save Todo
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+        <div className="flex flex-wrap items-center gap-2">
+          {createTodoDialog}
+          {transferDialog}
+        </div>
+
+        {/* --- Filters, Sorting & View Toggle --- */}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <TodoFilters value={filters} onChange={setFilters} />
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            value={view}
+            onValueChange={(value) =>
+              value && setView(value as "list" | "board")
+            }
+          >
+            <ToggleGroupItem value="list" aria-label="List view">
+              <LayoutGrid className="size-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="board" aria-label="Board view">
+              <Columns3 className="size-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {/* --- Bulk Actions for the selected todos --- */}
+        <BulkActionBar
+          selectedIds={visibleSelectedIds}
+          visibleCount={selectableTodos.length}
+          onSelectAll={() => selectAll(selectableTodos.map((t) => t.id))}
+          onClear={() => setSelectedIds(new Set())}
+        />
+
+        {todos.length === 0 && (
+          <p className="rounded-md border border-dashed p-8 text-center text-muted-foreground">
+            No todos match your filters.
+          </p>
+        )}
+
+        {/* --- Kanban Board --- */}
+        {view === "board" && todos.length > 0 && (
+          <TodoBoard
+            todos={todos}
+            canEdit={canEdit}
+            onStatusChange={(id, status) =>
+              updateStatus.mutate({
+                id,
+                status,
+                ...preconditionFor(todos.find((t) => t.id === id)),
+              })
+            }
+            onReorder={(id, prevId, nextId) =>
+              reorderTodo.mutate({ id, prevId, nextId })
+            }
+            onEdit={handleEditClick}
+            onShowHistory={setHistoryTodo}
+            onShowComments={setCommentsTodo}
+          />
+        )}
 
         {/* --- Todo List Grid --- */}
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {todos.map((todo) => (
-            <Card key={todo.id}>
-              <CardHeader>
-                <CardTitle>{todo.title}</CardTitle>
-                <CardDescription>
-                  Created: {format(new Date(todo.createdAt), "PPp")}
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                {todo.description && (
-                  <p className="text-sm text-muted-foreground">
-                    {todo.description}
-                  </p>
-                )}
-                <Badge variant={getStatusVariant(todo.status)}>
-                  {todo.status.replace("_", " ")}
-                </Badge>
-              </CardContent>
-              <CardFooter className="flex items-center justify-between">
-                {/* Status Select */}
-                <Select
-                  value={todo.status}
-                  onValueChange={(newStatus) => {
-                    updateStatus.mutate({
-                      id: todo.id,
-                      status: newStatus as TodoStatus,
-                    });
-                  }}
-                  disabled={updateStatus.isPending}
-                >
-                  <SelectTrigger className="w-[180px]">
-                    <SelectValue placeholder="Change status" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {Object.values(TodoStatus).map((status) => (
-                      <SelectItem key={status} value={status}>
-                        {status.replace("_", " ")}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-
-                {/* Action Buttons */}
-                <div className="flex space-x-2">
-                  {/* Edit Button */}
-                  <Button
-                    variant="outline"
-                    size="icon"
-                    onClick={() => handleEditClick(todo)}
-                    disabled={updateDetails.isPending}
+        {view === "list" && (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {todos.map((todo) => (
+              <Card
+                key={todo.id}
+                className={selectedIds.has(todo.id) ? "ring-2 ring-primary" : ""}
+              >
+                <CardHeader className="flex items-start gap-3">
+                  {canEdit(todo) && (
+                    <Checkbox
+                      checked={selectedIds.has(todo.id)}
+                      onCheckedChange={(checked) =>
+                        toggleSelected(todo.id, checked === true)
+                      }
+                      aria-label={`Select "${todo.title}"`}
+                      className="mt-1"
+                    />
+                  )}
+                  <div className="grid flex-1 gap-1.5">
+                    <CardTitle>{todo.title}</CardTitle>
+                    <CardDescription>
+                      Created: {format(new Date(todo.createdAt), "PPp")}
+                    </CardDescription>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {todo.description && (
+                    <p className="text-sm text-muted-foreground">
+                      {todo.description}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-1">
+                    <Badge variant={getStatusVariant(todo.status)}>
+                      {todo.status.replace("_", " ")}
+                    </Badge>
+                    <PriorityBadge priority={todo.priority} />
+                    <RecurrenceBadge todo={todo} />
+                    {todo._count.attachments > 0 && (
+                      <Badge variant="outline">
+                        <Paperclip /> {todo._count.attachments}
+                      </Badge>
+                    )}
+                  </div>
+                  <DueDateBadge todo={todo} />
+                  {todo.labels.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {todo.labels.map((label) => (
+                        <LabelBadge key={label.id} label={label} />
+                      ))}
+                    </div>
+                  )}
+                  <TodoChecklist
+                    todoId={todo.id}
+                    items={todo.checklistItems}
+                    readOnly={!canEdit(todo)}
+                  />
+                </CardContent>
+                <CardFooter className="flex items-center justify-between">
+                  {/* Status Select */}
+                  <Select
+                    value={todo.status}
+                    onValueChange={(newStatus) => {
+                      updateStatus.mutate({
+                        id: todo.id,
+                        status: newStatus as TodoStatus,
+                        ...preconditionFor(todo),
+                      });
+                    }}
+                    disabled={updateStatus.isPending || !canEdit(todo)}
                   >
-                    <Pencil className="size-4" />
-                  </Button>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue placeholder="Change status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(TodoStatus).map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {status.replace("_", " ")}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
 
-                  {/* Delete Button & Dialog */}
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button
-                        variant="destructive"
-                        size="icon"
-                        disabled={deleteTodo.isPending}
-                      >
-                        {deleteTodo.isPending &&
-                        deleteTodo.variables?.id === todo.id ? (
-                          <Loader2 className="size-4 animate-spin" />
-                        ) : (
-                          <Trash2 className="size-4" />
-                        )}
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          This action cannot be undone. This will permanently
-                          delete the todo "{todo.title}".
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction asChild>
-                          <Button
-                            onClick={() => deleteTodo.mutate({ id: todo.id })}
-                            disabled={deleteTodo.isPending}
-                          >
-                            {deleteTodo.isPending &&
-                              deleteTodo.variables?.id === todo.id && (
-                                <Loader2 className="mr-2 size-4 animate-spin" />
-                              )}
-                            Delete
-                          </Button>
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
-                </div>
-              </CardFooter>
-            </Card>
-          ))}
-        </div>
+                  {/* Action Buttons */}
+                  <div className="flex items-center space-x-2">
+                    <AssigneePicker todo={todo} disabled={!canEdit(todo)} />
+
+                    {/* History Button */}
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setHistoryTodo(todo)}
+                      aria-label="Show history"
+                    >
+                      <History className="size-4" />
+                    </Button>
+
+                    {/* Comments Button */}
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="relative"
+                      onClick={() => setCommentsTodo(todo)}
+                      aria-label={`Show comments (${todo._count.comments})`}
+                    >
+                      <MessageSquare className="size-4" />
+                      {todo._count.comments > 0 && (
+                        <span className="-top-1.5 -right-1.5 absolute flex size-4 items-center justify-center rounded-full bg-primary text-[10px] text-primary-foreground">
+                          {todo._count.comments}
+                        </span>
+                      )}
+                    </Button>
+
+                    {/* Edit Button */}
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => handleEditClick(todo)}
+                      disabled={updateDetails.isPending || !canEdit(todo)}
+                    >
+                      <Pencil className="size-4" />
+                    </Button>
+
+                    {/* Delete Button & Dialog */}
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="destructive"
+                          size="icon"
+                          disabled={deleteTodo.isPending || !canEdit(todo)}
+                        >
+                          {deleteTodo.isPending &&
+                          deleteTodo.variables?.id === todo.id ? (
+                            <Loader2 className="size-4 animate-spin" />
+                          ) : (
+                            <Trash2 className="size-4" />
+                          )}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Are you sure?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The todo "{todo.title}" will be moved to the trash,
+                            where it can be restored for a while.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction asChild>
+                            <Button
+                              onClick={() =>
+                                deleteTodo.mutate({
+                                  id: todo.id,
+                                  ...preconditionFor(todo),
+                                })
+                              }
+                              disabled={deleteTodo.isPending}
+                            >
+                              {deleteTodo.isPending &&
+                                deleteTodo.variables?.id === todo.id && (
+                                  <Loader2 className="mr-2 size-4 animate-spin" />
+                                )}
+                              Delete
+                            </Button>
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </CardFooter>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* --- Load More --- */}
+        {hasNextPage && (
+          <div className="flex justify-center">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage && (
+                <Loader2 className="mr-2 size-4 animate-spin" />
+              )}
+              Load More
+            </Button>
+          </div>
+        )}
+
+        {/* --- History Drawer --- */}
+        <TodoHistorySheet
+          todo={historyTodo}
+          onOpenChange={(open) => !open && setHistoryTodo(null)}
+        />
+
+        {/* --- Comments Drawer --- */}
+        <TodoCommentsSheet
+          todo={commentsTodo}
+          onOpenChange={(open) => !open && setCommentsTodo(null)}
+        />
 
         {/* --- Edit Todo Dialog --- */}
         <Dialog open={isEditDialogOpen} onOpenChange={setEditDialogOpen}>
@@ -491,6 +1136,28 @@ export function TodoList() {
                 </DialogDescription>
               </DialogHeader>
               <div className="grid gap-4 py-4">
+                {editConflict && (
+                  <TodoConflictAlert
+                    conflicts={
+                      editingTodo
+                        ? mergeTodoEdits(
+                            toEditFormValues(editingTodo, user?.uid),
+                            editConflict.mine,
+                            toEditFormValues(editConflict.server, user?.uid)
+                          ).conflicts
+                        : []
+                    }
+                    onMerge={handleMergeConflict}
+                    onOverwrite={handleOverwriteConflict}
+                    onDiscard={() =>
+                      rebaseEdit(
+                        editConflict.server,
+                        toEditFormValues(editConflict.server, user?.uid)
+                      )
+                    }
+                    isSaving={updateDetails.isPending}
+                  />
+                )}
                 <div className="grid grid-cols-4 items-center gap-4">
                   <Label htmlFor="edit-title" className="text-right">
                     Title
@@ -518,6 +1185,109 @@ export function TodoList() {
                     placeholder="(Optional)"
                   />
                 </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="edit-project" className="text-right">
+                    Project
+                  </Label>
+                  <Select
+                    value={String(editForm.watch("projectId") ?? "none")}
+                    onValueChange={(value) =>
+                      editForm.setValue(
+                        "projectId",
+                        value === "none" ? null : Number(value)
+                      )
+                    }
+                  >
+                    <SelectTrigger id="edit-project" className="col-span-3">
+                      <SelectValue placeholder="No project" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No project</SelectItem>
+                      {projects
+                        ?.filter((project) => !viewOnlyProjectIds.has(project.id))
+                        .map((project) => (
+                          <SelectItem
+                            key={project.id}
+                            value={String(project.id)}
+                          >
+                            {project.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="edit-priority" className="text-right">
+                    Priority
+                  </Label>
+                  <PrioritySelect
+                    id="edit-priority"
+                    value={editForm.watch("priority")}
+                    onChange={(priority) =>
+                      editForm.setValue("priority", priority)
+                    }
+                    className="col-span-3"
+                  />
+                </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="edit-dueAt" className="text-right">
+                    Due
+                  </Label>
+                  <DateTimePicker
+                    id="edit-dueAt"
+                    value={editForm.watch("dueAt")}
+                    onChange={(date) => editForm.setValue("dueAt", date)}
+                    placeholder="No due date"
+                    className="col-span-3"
+                  />
+                </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="edit-remindAt" className="text-right">
+                    Remind
+                  </Label>
+                  <DateTimePicker
+                    id="edit-remindAt"
+                    value={editForm.watch("remindAt")}
+                    onChange={(date) => editForm.setValue("remindAt", date)}
+                    placeholder="No reminder"
+                    className="col-span-3"
+                  />
+                </div>
+                <div className="grid grid-cols-4 items-start gap-4">
+                  <Label htmlFor="edit-recurrence" className="pt-2 text-right">
+                    Repeat
+                  </Label>
+                  <RecurrencePicker
+                    id="edit-recurrence"
+                    value={editForm.watch("recurrence")}
+                    onChange={(recurrence) =>
+                      editForm.setValue("recurrence", recurrence)
+                    }
+                    className="col-span-3"
+                  />
+                </div>
+                <div className="grid grid-cols-4 items-center gap-4">
+                  <Label htmlFor="edit-labels" className="text-right">
+                    Labels
+                  </Label>
+                  <LabelPicker
+                    id="edit-labels"
+                    value={editForm.watch("labelIds") ?? []}
+                    onChange={(labelIds) =>
+                      editForm.setValue("labelIds", labelIds)
+                    }
+                    className="col-span-3"
+                  />
+                </div>
+                {editingTodo && (
+                  <div className="grid grid-cols-4 items-start gap-4">
+                    <Label className="pt-1.5 text-right">Files</Label>
+                    <TodoAttachments
+                      todoId={editingTodo.id}
+                      className="col-span-3"
+                    />
+                  </div>
+                )}
               </div>
               <DialogFooter>
                 <DialogClose asChild>
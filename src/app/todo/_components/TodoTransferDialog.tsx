@@ -0,0 +1,328 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { api, type RouterInputs, type RouterOutputs } from "@/trpc/react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ArrowUpDown, Download, Loader2, Upload } from "lucide-react";
+
+type TransferFormat = RouterInputs["todo"]["export"]["format"];
+type ImportPreview = RouterOutputs["todo"]["import"];
+
+const formatLabels: Record<TransferFormat, string> = {
+  csv: "CSV",
+  json: "JSON",
+  markdown: "Markdown checklist",
+};
+
+const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024; // Matches the todo.import limit
+
+// Picks the format from the file extension; anything unknown is tried as CSV
+const formatOfFile = (fileName: string): TransferFormat => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "json") return "json";
+  if (extension === "md" || extension === "markdown") return "markdown";
+  return "csv";
+};
+
+// Saves generated text as a file through a temporary link
+const downloadFile = (file: RouterOutputs["todo"]["export"]) => {
+  const url = URL.createObjectURL(
+    new Blob([file.content], { type: file.contentType })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+interface TodoTransferDialogProps {
+  exportInput: Omit<RouterInputs["todo"]["export"], "format">; // The list's filters and sorting
+  projectId?: number | null; // Project that imported todos are filed under; otherwise their project column is used
+}
+
+// Exports the filtered list and imports todos from other tools, with a preview first
+export function TodoTransferDialog({
+  exportInput,
+  projectId,
+}: TodoTransferDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<TransferFormat>("csv");
+  const [isExporting, setIsExporting] = useState(false);
+  const [file, setFile] = useState<{
+    name: string;
+    format: TransferFormat;
+    content: string;
+  } | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const utils = api.useUtils();
+
+  const importTodos = api.todo.import.useMutation({
+    onSuccess: (result, variables) => {
+      if (variables.dryRun) {
+        setPreview(result);
+        return;
+      }
+      toast.success(
+        `Imported ${result.imported} ${result.imported === 1 ? "todo" : "todos"}`
+      );
+      utils.todo.getAll.invalidate();
+      utils.project.getAll.invalidate();
+      handleOpenChange(false);
+    },
+    onError: (err) => {
+      toast.error(`Failed to import todos: ${err.message}`);
+    },
+  });
+
+  const runImport = (
+    { format, content }: { format: TransferFormat; content: string },
+    dryRun: boolean
+  ) => importTodos.mutate({ format, content, projectId, dryRun });
+
+  const resetImport = () => {
+    setFile(null);
+    setPreview(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) resetImport();
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // Fetched outside the query cache so the file isn't kept (or persisted) there
+      downloadFile(
+        await utils.client.todo.export.query({
+          ...exportInput,
+          format: exportFormat,
+        })
+      );
+    } catch (err) {
+      toast.error(`Failed to export todos: ${(err as Error).message}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFile = async (selected: File | undefined) => {
+    resetImport();
+    if (!selected) return;
+    if (selected.size > MAX_IMPORT_FILE_BYTES) {
+      toast.error(`${selected.name}: The file is too large (max 5 MB)`);
+      return;
+    }
+    const next = {
+      name: selected.name,
+      format: formatOfFile(selected.name),
+      content: await selected.text(),
+    };
+    setFile(next);
+    runImport(next, true);
+  };
+
+  const changeImportFormat = (format: TransferFormat) => {
+    if (!file) return;
+    setFile({ ...file, format });
+    setPreview(null);
+    runImport({ ...file, format }, true);
+  };
+
+  const rowsWithIssues = preview?.rows.filter(
+    (row) => row.errors.length > 0 || row.warnings.length > 0
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ArrowUpDown className="mr-2 size-4" /> Import / Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Import / Export</DialogTitle>
+          <DialogDescription>
+            Move todos between this app and other tools.
+          </DialogDescription>
+        </DialogHeader>
+        <Tabs defaultValue="export">
+          <TabsList className="w-full">
+            <TabsTrigger value="export">Export</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-4 pt-2">
+            <p className="text-muted-foreground text-sm">
+              Downloads the todos matching the current filters, in the current
+              order.
+            </p>
+            <div className="grid gap-2">
+              <Label>Format</Label>
+              <Select
+                value={exportFormat}
+                onValueChange={(value) =>
+                  setExportFormat(value as TransferFormat)
+                }
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(formatLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {exportFormat === "markdown" && (
+                <p className="text-muted-foreground text-xs">
+                  Checklists only keep titles, descriptions and whether a todo
+                  is done.
+                </p>
+              )}
+            </div>
+            <DialogFooter>
+              <Button onClick={handleExport} disabled={isExporting}>
+                {isExporting ? (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                ) : (
+                  <Download className="mr-2 size-4" />
+                )}
+                Download
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-4 pt-2">
+            <p className="text-muted-foreground text-sm">
+              CSV files need a <code>title</code> column;{" "}
+              <code>description</code>, <code>status</code>,{" "}
+              <code>priority</code>, <code>dueAt</code>, <code>remindAt</code>{" "}
+              and <code>labels</code> are optional. JSON files use the same
+              fields, Markdown files use <code>- [ ]</code> task lists.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,.md,.markdown,text/csv,application/json,text/markdown"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="hidden"
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <Upload className="mr-2 size-4" /> Choose file
+              </Button>
+              {file && (
+                <>
+                  <span className="min-w-0 flex-1 truncate text-sm">
+                    {file.name}
+                  </span>
+                  <Select
+                    value={file.format}
+                    onValueChange={(value) =>
+                      changeImportFormat(value as TransferFormat)
+                    }
+                  >
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(formatLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              )}
+            </div>
+
+            {importTodos.isPending && importTodos.variables?.dryRun && (
+              <p className="flex items-center text-muted-foreground text-sm">
+                <Loader2 className="mr-2 size-4 animate-spin" /> Checking file...
+              </p>
+            )}
+            {preview && (
+              <div className="space-y-2 text-sm">
+                <p>
+                  {preview.valid} of {preview.rows.length}{" "}
+                  {preview.rows.length === 1 ? "todo" : "todos"} can be
+                  imported.
+                  {preview.invalid > 0 && " Rows with errors will be skipped."}
+                </p>
+                {rowsWithIssues && rowsWithIssues.length > 0 && (
+                  <ul className="max-h-48 space-y-1 overflow-y-auto rounded-md border p-2">
+                    {rowsWithIssues.map((row) => (
+                      <li key={row.row}>
+                        <span className="font-medium">
+                          Row {row.row}
+                          {row.title && ` (${row.title})`}:
+                        </span>{" "}
+                        {row.errors.length > 0 && (
+                          <span className="text-destructive">
+                            {row.errors.join("; ")}
+                          </span>
+                        )}{" "}
+                        {row.warnings.length > 0 && (
+                          <span className="text-muted-foreground">
+                            {row.warnings.join("; ")}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button
+                onClick={() => file && runImport(file, false)}
+                disabled={
+                  !preview || preview.valid === 0 || importTodos.isPending
+                }
+              >
+                {importTodos.isPending && !importTodos.variables?.dryRun && (
+                  <Loader2 className="mr-2 size-4 animate-spin" />
+                )}
+                Import {preview?.valid ?? ""}{" "}
+                {preview?.valid === 1 ? "todo" : "todos"}
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
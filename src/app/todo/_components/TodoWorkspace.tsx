@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+import { api } from "@/trpc/react";
+import {
+  SidebarInset,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { Separator } from "@/components/ui/separator";
+import { useAuth } from "@/context/auth-context";
+import { ProjectSidebar } from "./ProjectSidebar";
+import { TodoList } from "./TodoList";
+
+// Shell for the todo page: project switcher on the left, selected list on the right
+export function TodoWorkspace() {
+  // undefined = all todos across projects
+  const [selectedProjectId, setSelectedProjectId] = useState<
+    number | undefined
+  >(undefined);
+
+  const { isServerSessionReady } = useAuth();
+  const { data: projects } = api.project.getAll.useQuery(undefined, {
+    enabled: isServerSessionReady,
+  });
+  const selectedProject = projects?.find((p) => p.id === selectedProjectId);
+
+  return (
+    <SidebarProvider>
+      <ProjectSidebar
+        selectedProjectId={selectedProjectId}
+        onSelectProject={setSelectedProjectId}
+      />
+      <SidebarInset>
+        <header className="flex h-14 items-center gap-2 border-b px-4">
+          <SidebarTrigger />
+          <Separator orientation="vertical" className="mr-2 h-4" />
+          <h1 className="font-bold text-2xl">
+            {selectedProject?.name ?? "My Todos"}
+          </h1>
+        </header>
+        <div className="container mx-auto p-4 md:p-6 lg:p-8">
+          <TodoList projectId={selectedProjectId} />
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
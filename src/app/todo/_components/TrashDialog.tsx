@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { api } from "@/trpc/react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { SidebarMenuButton } from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+// Sidebar entry that opens the trash, where deleted todos can be restored or purged
+export function TrashDialog() {
+  const [open, setOpen] = useState(false);
+  const utils = api.useUtils();
+
+  // Only load the trash while the dialog is open
+  const { data: trashed, isLoading } = api.todo.listTrash.useQuery(undefined, {
+    enabled: open,
+  });
+
+  const restoreTodo = api.todo.restore.useMutation({
+    onSuccess: () => {
+      toast.success("Todo restored!");
+      utils.todo.listTrash.invalidate();
+      utils.todo.getAll.invalidate();
+      utils.project.getAll.invalidate();
+    },
+    onError: (err) => {
+      toast.error(`Failed to restore todo: ${err.message}`);
+    },
+  });
+
+  const emptyTrash = api.todo.emptyTrash.useMutation({
+    onSuccess: ({ count }) => {
+      toast.success(
+        `Permanently deleted ${count} todo${count === 1 ? "" : "s"}`
+      );
+      utils.todo.listTrash.invalidate();
+    },
+    onError: (err) => {
+      toast.error(`Failed to empty trash: ${err.message}`);
+    },
+  });
+
+  return (
+    <>
+      <SidebarMenuButton onClick={() => setOpen(true)}>
+        <Trash2 />
+        <span>Trash</span>
+      </SidebarMenuButton>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>Trash</DialogTitle>
+            <DialogDescription>
+              Deleted todos are kept here for a while before they are removed
+              for good.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+            {isLoading &&
+              [...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            {trashed?.length === 0 && (
+              <p className="py-8 text-center text-muted-foreground text-sm">
+                The trash is empty.
+              </p>
+            )}
+            {trashed?.map((todo) => (
+              <div
+                key={todo.id}
+                className="flex items-center justify-between gap-2 rounded-md border p-3"
+              >
+                <div className="min-w-0">
+                  <p className="truncate font-medium text-sm">{todo.title}</p>
+                  {todo.deletedAt && (
+                    <p className="text-muted-foreground text-xs">
+                      Deleted{" "}
+                      {formatDistanceToNow(todo.deletedAt, { addSuffix: true })}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => restoreTodo.mutate({ id: todo.id })}
+                  disabled={restoreTodo.isPending}
+                >
+                  <RotateCcw className="mr-2 size-4" /> Restore
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="destructive"
+                  disabled={!trashed?.length || emptyTrash.isPending}
+                >
+                  {emptyTrash.isPending && (
+                    <Loader2 className="mr-2 size-4 animate-spin" />
+                  )}
+                  Empty trash
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This action cannot be undone. Every todo in the trash will
+                    be permanently deleted.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => emptyTrash.mutate()}>
+                    Empty trash
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,4 +1,4 @@
-import { TodoList } from "./_components/TodoList";
+import { TodoWorkspace } from "./_components/TodoWorkspace";
 import { HydrateClient } from "@/trpc/server";
 
 function TodoPage() {
@@ -6,10 +6,7 @@ function TodoPage() {
     <HydrateClient>
       {" "}
       {/* Ensure client components are hydrated */}
-      <div className="container mx-auto p-4 md:p-6 lg:p-8">
-        <h1 className="mb-6 text-2xl font-bold">My Todos</h1>
-        <TodoList />
-      </div>
+      <TodoWorkspace />
     </HydrateClient>
   );
 }
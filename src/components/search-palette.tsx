@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { keepPreviousData } from "@tanstack/react-query";
+import { api, type RouterOutputs } from "@/trpc/react";
+import { useAuth } from "@/context/auth-context";
+import { splitHighlights } from "@/lib/search";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Bot, CheckSquare, Loader2, MessageSquare } from "lucide-react";
+
+type SearchResult = RouterOutputs["search"]["query"][number];
+
+const resultGroups: {
+  kind: SearchResult["kind"];
+  heading: string;
+  icon: typeof CheckSquare;
+}[] = [
+  { kind: "todo", heading: "Todos", icon: CheckSquare },
+  { kind: "comment", heading: "Comments", icon: MessageSquare },
+  { kind: "message", heading: "Chats", icon: Bot },
+];
+
+// Where selecting a result goes; the todo list and the chat open the linked item
+const hrefOf = (result: SearchResult) => {
+  switch (result.kind) {
+    case "todo":
+      return `/todo?todo=${result.todoId}`;
+    case "comment":
+      return `/todo?todo=${result.todoId}&open=comments`;
+    case "message":
+      return `/ai?conversation=${result.conversationId}`;
+  }
+};
+
+// Renders a result with its matched words in <mark> elements
+function Highlighted({ value }: { value: string }) {
+  return (
+    <>
+      {splitHighlights(value).map((segment, index) =>
+        segment.highlighted ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-yellow-200 dark:bg-yellow-800"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
+
+// Global Cmd+K / Ctrl+K search over the signed-in user's todos, comments and AI chats
+export function SearchPalette() {
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+  const router = useRouter();
+  const { user, isServerSessionReady } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [user]);
+
+  // Debounce typing so every keystroke doesn't hit the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(input.trim()), 200);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  const {
+    data: results,
+    isFetching,
+    error,
+  } = api.search.query.useQuery(
+    { query },
+    {
+      enabled: open && isServerSessionReady && query !== "",
+      placeholderData: keepPreviousData, // Keep the old results while the next ones load
+    }
+  );
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setInput("");
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    handleOpenChange(false);
+    router.push(hrefOf(result));
+  };
+
+  if (!user) return null;
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={handleOpenChange}
+      title="Search"
+      description="Search your todos, comments and chats"
+      shouldFilter={false} // Results are already matched and ranked by the server
+    >
+      <CommandInput
+        value={input}
+        onValueChange={setInput}
+        placeholder="Search todos, comments and chats..."
+      />
+      <CommandList>
+        {query !== "" && !isFetching && (
+          <CommandEmpty>
+            {error ? `Search failed: ${error.message}` : "No results found."}
+          </CommandEmpty>
+        )}
+        {query !== "" && isFetching && !results && (
+          <div className="flex items-center justify-center py-6 text-muted-foreground text-sm">
+            <Loader2 className="mr-2 size-4 animate-spin" /> Searching...
+          </div>
+        )}
+        {query !== "" &&
+          resultGroups.map(({ kind, heading, icon: Icon }) => {
+            const items = results?.filter((result) => result.kind === kind);
+            if (!items?.length) return null;
+            return (
+              <CommandGroup key={kind} heading={heading}>
+                {items.map((result) => (
+                  <CommandItem
+                    key={`${result.kind}-${result.id}`}
+                    value={`${result.kind}-${result.id}`}
+                    onSelect={() => handleSelect(result)}
+                    className="items-start"
+                  >
+                    <Icon className="mt-0.5" />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-medium">
+                        <Highlighted value={result.title} />
+                      </p>
+                      {result.snippet && (
+                        <p className="line-clamp-2 text-muted-foreground text-xs">
+                          <Highlighted value={result.snippet} />
+                        </p>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            );
+          })}
+      </CommandList>
+    </CommandDialog>
+  );
+}
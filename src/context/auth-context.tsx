@@ -10,6 +10,8 @@ import {
 } from "firebase/auth";
 import { auth } from "../lib/firebase";
 import { api } from "@/trpc/react"; // Import the tRPC client
+import { queryPersister } from "@/trpc/offline";
+import { useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner"; // Import toast for feedback
 
 type AuthContextType = {
@@ -34,6 +36,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [isServerSessionReady, setIsServerSessionReady] = useState(false);
+  const queryClient = useQueryClient();
 
   // tRPC mutations
   const createSessionMutation = api.auth.createSession.useMutation({
@@ -122,6 +125,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       await deleteSessionMutation.mutateAsync();
       // Then sign out from Firebase client
       await firebaseSignOut(auth);
+      // Drop the offline cache so the next user doesn't see these todos
+      queryClient.clear();
+      await queryPersister.removeClient();
       // Redirect to login page after successful sign out
       // Keep this replace for sign out to ensure clean state
       window.location.replace("/auth/login");
@@ -13,7 +13,24 @@ export const env = createEnv({
       .default("development"),
     FIREBASE_CLIENT_EMAIL: z.string().email(),
     FIREBASE_PRIVATE_KEY: z.string().min(1),
-    GEMINI_API_KEY: z.string().min(1),
+    LLM_PROVIDER: z.enum(["gemini", "openai", "mock"]).default("gemini"),
+    LLM_MODEL: z.string().optional(),
+    LLM_MODELS: z
+      .string()
+      .optional()
+      .transform((value) =>
+        (value ?? "")
+          .split(",")
+          .map((model) => model.trim())
+          .filter(Boolean)
+      ),
+    GEMINI_API_KEY: z.string().min(1).optional(),
+    OPENAI_BASE_URL: z.string().url().default("http://localhost:11434/v1"),
+    OPENAI_API_KEY: z.string().optional(),
+    TODO_TRASH_RETENTION_DAYS: z.coerce.number().int().positive().default(30),
+    CRON_SECRET: z.string().min(16).optional(),
+    ATTACHMENT_STORAGE: z.enum(["local"]).default("local"),
+    ATTACHMENT_LOCAL_DIR: z.string().default("./uploads"),
   },
 
   /**
@@ -38,7 +55,16 @@ export const env = createEnv({
       process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
     FIREBASE_CLIENT_EMAIL: process.env.FIREBASE_CLIENT_EMAIL,
     FIREBASE_PRIVATE_KEY: process.env.FIREBASE_PRIVATE_KEY,
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_MODEL: process.env.LLM_MODEL,
+    LLM_MODELS: process.env.LLM_MODELS,
     GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+    OPENAI_BASE_URL: process.env.OPENAI_BASE_URL,
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    TODO_TRASH_RETENTION_DAYS: process.env.TODO_TRASH_RETENTION_DAYS,
+    CRON_SECRET: process.env.CRON_SECRET,
+    ATTACHMENT_STORAGE: process.env.ATTACHMENT_STORAGE,
+    ATTACHMENT_LOCAL_DIR: process.env.ATTACHMENT_LOCAL_DIR,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
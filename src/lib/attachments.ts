@@ -0,0 +1,41 @@
+// Upload limits shared by the attachment route handler and the upload button
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024; // 10 MB
+
+export const ATTACHMENT_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+] as const;
+
+/**
+ * Checks a file against the upload limits before it is sent or stored.
+ * @param file The file's MIME type and size in bytes.
+ * @returns An error message, or null when the file is accepted.
+ */
+export function validateAttachment(file: {
+  type: string;
+  size: number;
+}): string | null {
+  if (!(ATTACHMENT_MIME_TYPES as readonly string[]).includes(file.type)) {
+    return "Only images, PDFs and plain text files can be attached";
+  }
+  if (file.size === 0) return "The file is empty";
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `Files can be at most ${formatFileSize(MAX_ATTACHMENT_BYTES)}`;
+  }
+  return null;
+}
+
+/**
+ * Formats a byte count for display, e.g. 1536 -> "1.5 KB".
+ * @param bytes Size in bytes.
+ * @returns The size in B, KB or MB.
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
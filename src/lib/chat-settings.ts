@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+// Generation limits shared by ai.generateStream and the chat's settings popover
+export const chatSettingLimits = {
+  temperature: { min: 0, max: 2, step: 0.1 },
+  topP: { min: 0, max: 1, step: 0.05 },
+  maxOutputTokens: { min: 1, max: 8192 },
+  systemInstruction: { maxLength: 10_000 },
+} as const;
+
+/**
+ * Settings of one conversation; null leaves the value to the model's default. The server narrows
+ * `model` to its allow-list.
+ */
+export const chatSettingsSchema = z.object({
+  model: z.string().nullable(),
+  temperature: z
+    .number()
+    .min(chatSettingLimits.temperature.min)
+    .max(chatSettingLimits.temperature.max)
+    .nullable(),
+  maxOutputTokens: z
+    .number()
+    .int()
+    .min(chatSettingLimits.maxOutputTokens.min)
+    .max(chatSettingLimits.maxOutputTokens.max)
+    .nullable(),
+  topP: z
+    .number()
+    .min(chatSettingLimits.topP.min)
+    .max(chatSettingLimits.topP.max)
+    .nullable(),
+  systemInstruction: z
+    .string()
+    .trim()
+    .max(chatSettingLimits.systemInstruction.maxLength)
+    .nullable()
+    .transform((value) => value || null), // A blank instruction means none
+});
+
+export type ChatSettings = z.infer<typeof chatSettingsSchema>;
+
+export const defaultChatSettings: ChatSettings = {
+  model: null,
+  temperature: null,
+  maxOutputTokens: null,
+  topP: null,
+  systemInstruction: null,
+};
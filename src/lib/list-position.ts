@@ -0,0 +1,44 @@
+import { positionBetween } from "@/lib/todo-position";
+
+// Gap between neighbouring positions below which a list gets renumbered
+const MIN_POSITION_GAP = 1e-6;
+
+// How to read and write the positions of one sorted list, e.g. a board column or a checklist
+export type PositionedList = {
+  // Position of an item, or null when it isn't in this list
+  positionOf: (id: number) => Promise<number | null>;
+  // Ids of the items in their current order
+  orderedIds: () => Promise<number[]>;
+  // Stores new positions for the given items
+  setPositions: (items: { id: number; position: number }[]) => Promise<unknown>;
+};
+
+/**
+ * Computes the position for an item dropped between two neighbours of a list. Once repeated
+ * halving has used up the gap between them, the list is renumbered 0, 1, 2, ... first.
+ * @param list The list the item is dropped in.
+ * @param prevId Id of the item that should end up directly above, or null at the start.
+ * @param nextId Id of the item that should end up directly below, or null at the end.
+ * @returns The position for the moved item, or null when a neighbour isn't in the list.
+ */
+export async function positionBetweenIds(
+  list: PositionedList,
+  prevId: number | null,
+  nextId: number | null
+): Promise<number | null> {
+  const positionOf = (id: number | null) =>
+    id === null ? null : list.positionOf(id);
+  const loadNeighbours = () =>
+    Promise.all([positionOf(prevId), positionOf(nextId)]);
+
+  let [prev, next] = await loadNeighbours();
+  if ((prevId !== null && prev === null) || (nextId !== null && next === null)) {
+    return null;
+  }
+  if (prev !== null && next !== null && next - prev < MIN_POSITION_GAP) {
+    const ids = await list.orderedIds();
+    await list.setPositions(ids.map((id, position) => ({ id, position })));
+    [prev, next] = await loadNeighbours();
+  }
+  return positionBetween(prev ?? undefined, next ?? undefined);
+}
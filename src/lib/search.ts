@@ -0,0 +1,23 @@
+// Wrap matched words in search results. Control characters can't appear in typed text, so
+// results are sent as plain strings and highlighted without rendering HTML from the server.
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// Splits a search result into plain and highlighted parts, e.g. for <mark> elements
+export const splitHighlights = (value: string): HighlightSegment[] =>
+  value
+    .split(HIGHLIGHT_START)
+    .flatMap((part, index) => {
+      if (index === 0) return [{ text: part, highlighted: false }];
+      const [match = "", rest = ""] = part.split(HIGHLIGHT_END);
+      return [
+        { text: match, highlighted: true },
+        { text: rest, highlighted: false },
+      ];
+    })
+    .filter((segment) => segment.text !== "");
@@ -0,0 +1,73 @@
+import { TodoEventType } from "@prisma/client";
+import { format } from "date-fns";
+import type { RouterOutputs } from "@/trpc/react";
+
+export type TodoEventItem = RouterOutputs["activity"]["list"]["items"][number];
+
+export const fieldLabels: Record<string, string> = {
+  title: "title",
+  description: "description",
+  projectId: "project",
+  dueAt: "due date",
+  remindAt: "reminder",
+  priority: "priority",
+  labels: "labels",
+  recurrence: "repeat",
+  recurrenceInterval: "repeat interval",
+  recurrenceEndsAt: "repeat end",
+  recurrenceCount: "number of repeats",
+  assignee: "assignee",
+};
+
+// Fields holding dates
+const dateFields = new Set(["dueAt", "remindAt", "recurrenceEndsAt"]);
+
+// Formats a recorded value (decoded from JSON, so dates are ISO strings)
+const formatValue = (field: string | null, value: unknown): string => {
+  if (value === null || value === undefined) return "none";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "none";
+  if (field && dateFields.has(field) && typeof value === "string") {
+    return format(new Date(value), "PPp");
+  }
+  if (typeof value === "string") {
+    // Enum values such as IN_PROGRESS or URGENT
+    return /^[A-Z_]+$/.test(value)
+      ? value.replace("_", " ").toLowerCase()
+      : value;
+  }
+  return String(value);
+};
+
+/**
+ * Turns a todo history entry into a short sentence, e.g. "Moved from todo to done".
+ * @param event An entry returned by `activity.list`.
+ * @returns A description without the todo's title.
+ */
+export function describeTodoEvent(event: TodoEventItem): string {
+  switch (event.type) {
+    case TodoEventType.CREATED:
+      return "Created";
+    case TodoEventType.DELETED:
+      return "Moved to trash";
+    case TodoEventType.RESTORED:
+      return "Restored from trash";
+    case TodoEventType.STATUS_CHANGED:
+      return `Moved from ${formatValue(null, event.before)} to ${formatValue(null, event.after)}`;
+    case TodoEventType.EDITED:
+      break;
+  }
+
+  const field = event.field ?? "";
+  if (field === "title") {
+    return `Renamed from "${formatValue(field, event.before)}" to "${formatValue(field, event.after)}"`;
+  }
+  if (field === "description") {
+    return event.after ? "Edited the description" : "Cleared the description";
+  }
+  if (field === "projectId") {
+    return event.after === null
+      ? "Removed from its project"
+      : "Moved to another project";
+  }
+  return `Changed ${fieldLabels[field] ?? field} from ${formatValue(field, event.before)} to ${formatValue(field, event.after)}`;
+}
@@ -0,0 +1,2 @@
+// Most todos one bulk action may change; the todo list caps its selection at this
+export const MAX_BULK_TODOS = 100;
@@ -0,0 +1,37 @@
+import { fieldLabels } from "./todo-activity";
+
+// Compares form values, including dates and label id lists
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Three-way merge of an edit that hit a version conflict. Fields the user changed keep the user's
+ * value, every other field takes the server's.
+ * @param base The values the user started editing from.
+ * @param mine The values the user tried to save.
+ * @param theirs The values currently on the server.
+ * @returns The merged values and the fields both sides changed differently.
+ */
+export function mergeTodoEdits<T extends Record<string, unknown>>(
+  base: T,
+  mine: T,
+  theirs: T
+) {
+  const merged = { ...theirs };
+  const conflicts: string[] = [];
+  for (const field of Object.keys(mine) as (keyof T & string)[]) {
+    if (isSameValue(mine[field], base[field])) continue;
+    merged[field] = mine[field];
+    if (
+      !isSameValue(theirs[field], base[field]) &&
+      !isSameValue(theirs[field], mine[field])
+    ) {
+      conflicts.push(field);
+    }
+  }
+  return { merged, conflicts };
+}
+
+// Readable name of an edit form field, e.g. "due date" for dueAt
+export const describeTodoField = (field: string) =>
+  fieldLabels[field === "labelIds" ? "labels" : field] ?? field;
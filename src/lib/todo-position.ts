@@ -0,0 +1,13 @@
+/**
+ * Computes a sort position between two neighbours so a todo can be moved without renumbering the
+ * rest of its column. Either neighbour may be missing when dropping at the start or end.
+ * @param prev Position of the todo that should end up directly above, if any.
+ * @param next Position of the todo that should end up directly below, if any.
+ * @returns The position for the moved todo.
+ */
+export function positionBetween(prev?: number, next?: number): number {
+  if (prev !== undefined && next !== undefined) return (prev + next) / 2;
+  if (prev !== undefined) return prev + 1;
+  if (next !== undefined) return next - 1;
+  return 0;
+}
@@ -0,0 +1,52 @@
+import { RecurrenceFrequency } from "@prisma/client";
+import { addDays, addMonths, addWeeks, format } from "date-fns";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Repeat every N days/weeks/months
+  endsAt?: Date | null; // No occurrences are due after this date
+  count?: number | null; // Total number of occurrences in the series
+}
+
+const frequencyUnits: Record<RecurrenceFrequency, [string, string]> = {
+  [RecurrenceFrequency.DAILY]: ["day", "days"],
+  [RecurrenceFrequency.WEEKLY]: ["week", "weeks"],
+  [RecurrenceFrequency.MONTHLY]: ["month", "months"],
+};
+
+/**
+ * Computes when the next occurrence of a recurring todo is due. Monthly steps keep the day of the
+ * month where possible and fall back to the month's last day (Jan 31 -> Feb 28).
+ * @param from Due date of the current occurrence, or its completion time if it has none.
+ * @param rule Frequency and interval of the series.
+ * @returns The date the next occurrence is anchored on.
+ */
+export function nextOccurrenceDate(
+  from: Date,
+  rule: Pick<RecurrenceRule, "frequency" | "interval">
+): Date {
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return addDays(from, rule.interval);
+    case RecurrenceFrequency.WEEKLY:
+      return addWeeks(from, rule.interval);
+    case RecurrenceFrequency.MONTHLY:
+      return addMonths(from, rule.interval);
+  }
+}
+
+/**
+ * Describes a rule for badges and pickers, e.g. "Every 2 weeks, 5 times".
+ * @param rule The recurrence rule to describe.
+ * @returns A short human readable summary.
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const [singular, plural] = frequencyUnits[rule.frequency];
+  let text =
+    rule.interval === 1
+      ? `Every ${singular}`
+      : `Every ${rule.interval} ${plural}`;
+  if (rule.count) text += `, ${rule.count} times`;
+  if (rule.endsAt) text += `, until ${format(rule.endsAt, "PP")}`;
+  return text;
+}
@@ -0,0 +1,97 @@
+import { MemberRole, type Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { db } from "@/server/db";
+
+// Roles in increasing order of privilege
+const roleOrder: MemberRole[] = [
+	MemberRole.VIEWER,
+	MemberRole.EDITOR,
+	MemberRole.OWNER,
+];
+
+// Roles that include the privileges of `minRole`
+const rolesAtLeast = (minRole: MemberRole) =>
+	roleOrder.slice(roleOrder.indexOf(minRole));
+
+/**
+ * Projects the user can access with at least `minRole`: the ones they created (always OWNER) and
+ * the ones shared with them through an accepted membership.
+ */
+export const projectAccessWhere = (
+	userId: string,
+	minRole: MemberRole = MemberRole.VIEWER,
+): Prisma.ProjectWhereInput => ({
+	OR: [
+		{ userId },
+		{
+			members: {
+				some: {
+					userId,
+					acceptedAt: { not: null },
+					role: { in: rolesAtLeast(minRole) },
+				},
+			},
+		},
+	],
+});
+
+/**
+ * Todos the user can access with at least `minRole`. Todos outside any project stay private to
+ * their creator; todos in a project follow the project's memberships.
+ *
+ * Every todo query should filter with this instead of `userId` so shared projects work.
+ */
+export const todoAccessWhere = (
+	userId: string,
+	minRole: MemberRole = MemberRole.VIEWER,
+): Prisma.TodoWhereInput => ({
+	OR: [
+		{ projectId: null, userId },
+		{ project: projectAccessWhere(userId, minRole) },
+	],
+});
+
+// Throws unless the project exists and the user has at least `minRole` on it
+export const assertProjectAccess = async (
+	projectId: number,
+	userId: string,
+	minRole: MemberRole,
+) => {
+	const project = await db.project.findFirst({
+		where: { id: projectId, ...projectAccessWhere(userId, minRole) },
+		select: { id: true },
+	});
+	if (project) return;
+
+	// Tell members without enough privileges apart from users who can't see the project at all
+	const visible = await db.project.count({
+		where: { id: projectId, ...projectAccessWhere(userId) },
+	});
+	throw visible
+		? new TRPCError({
+				code: "FORBIDDEN",
+				message: `This action requires the ${minRole.toLowerCase()} role`,
+			})
+		: new TRPCError({ code: "NOT_FOUND", message: "Project not found" });
+};
+
+// The user's role on a project, or null without access
+export const projectRoleOf = async (
+	projectId: number,
+	userId: string,
+): Promise<MemberRole | null> => {
+	const project = await db.project.findUnique({
+		where: { id: projectId },
+		select: {
+			userId: true,
+			members: {
+				where: { userId, acceptedAt: { not: null } },
+				select: { role: true },
+			},
+		},
+	});
+	if (!project) return null;
+	if (project.userId === userId) return MemberRole.OWNER;
+	return project.members[0]?.role ?? null;
+};
@@ -0,0 +1,47 @@
+import type { Prisma, TodoEvent, TodoEventType } from "@prisma/client";
+
+import { db } from "@/server/db";
+
+export type TodoEventInput = {
+	todoId: number;
+	userId: string;
+	type: TodoEventType;
+	field?: string; // Only for EDITED events
+	before?: unknown;
+	after?: unknown;
+};
+
+const encode = (value: unknown) =>
+	value === undefined ? null : JSON.stringify(value);
+
+const decode = (value: string | null): unknown =>
+	value === null ? null : JSON.parse(value);
+
+/**
+ * Appends entries to the todo audit trail. Values are stored as JSON so any field type fits; dates
+ * come back as ISO strings.
+ *
+ * Pass the transaction client when recording inside `$transaction` so the history is only written
+ * when the change itself commits.
+ */
+export const recordTodoEvents = (
+	events: TodoEventInput[],
+	client: Prisma.TransactionClient = db,
+) =>
+	client.todoEvent.createMany({
+		data: events.map((event) => ({
+			todoId: event.todoId,
+			userId: event.userId,
+			type: event.type,
+			field: event.field ?? null,
+			before: encode(event.before),
+			after: encode(event.after),
+		})),
+	});
+
+// Decodes the stored JSON values of an event for API responses
+export const parseTodoEvent = <T extends TodoEvent>(event: T) => ({
+	...event,
+	before: decode(event.before),
+	after: decode(event.after),
+});
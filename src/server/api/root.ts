@@ -2,6 +2,15 @@ import { createCallerFactory, createTRPCRouter } from "@/server/api/trpc";
 import { authRouter } from "./routers/auth";
 import { todoRouter } from "./routers/todo";
 import { aiRouter } from "./routers/ai";
+import { projectRouter } from "./routers/project";
+import { checklistRouter } from "./routers/checklist";
+import { labelRouter } from "./routers/label";
+import { activityRouter } from "./routers/activity";
+import { memberRouter } from "./routers/member";
+import { commentRouter } from "./routers/comment";
+import { attachmentRouter } from "./routers/attachment";
+import { searchRouter } from "./routers/search";
+import { conversationRouter } from "./routers/conversation";
 
 /**
  * This is the primary router for your server.
@@ -12,6 +21,15 @@ export const appRouter = createTRPCRouter({
 	auth: authRouter,
 	todo: todoRouter,
 	ai: aiRouter,
+	project: projectRouter,
+	checklist: checklistRouter,
+	label: labelRouter,
+	activity: activityRouter,
+	member: memberRouter,
+	comment: commentRouter,
+	attachment: attachmentRouter,
+	search: searchRouter,
+	conversation: conversationRouter,
 });
 
 // export type definition of API
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db"; // Import Prisma client
+import { parseTodoEvent } from "@/server/activity";
+import { todoAccessWhere } from "@/server/access";
+
+export const activityRouter = createTRPCRouter({
+	list: protectedProcedure
+		.input(
+			z.object({
+				todoId: z.number().optional(), // Limit to one todo's history
+				cursor: z.number().nullish(), // Id of the last event of the previous page
+				limit: z.number().min(1).max(100).default(20),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			const { cursor, limit } = input;
+
+			// Fetch one extra row to find out whether there is a next page
+			const events = await db.todoEvent.findMany({
+				where: {
+					todo: todoAccessWhere(ctx.user.uid), // Activity on todos the user can see, by anyone
+					todoId: input.todoId,
+				},
+				orderBy: [{ createdAt: "desc" }, { id: "desc" }], // Newest first
+				include: {
+					todo: { select: { id: true, title: true, deletedAt: true } },
+					user: { select: { id: true, email: true } }, // Who made the change
+				},
+				take: limit + 1,
+				cursor: cursor ? { id: cursor } : undefined,
+				skip: cursor ? 1 : 0, // Skip the cursor row itself
+			});
+
+			let nextCursor: number | undefined = undefined;
+			if (events.length > limit) {
+				const nextItem = events.pop();
+				nextCursor = nextItem?.id;
+			}
+
+			return { items: events.map(parseTodoEvent), nextCursor };
+		}),
+});
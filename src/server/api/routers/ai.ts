@@ -3,20 +3,50 @@ import { z } from "zod";
 // import { observable } from "@trpc/server/observable"; 
 
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
-import { generateGeminiStream } from "@/lib/gemini";
+import { allowedModels, llm } from "@/server/llm";
+import { chatSettingsSchema } from "@/lib/chat-settings";
 import { TRPCError } from "@trpc/server"; // Import TRPCError
+import { ChatRole } from "@prisma/client";
+import {
+  addChatMessage,
+  assertConversationOwner,
+  loadChatContext,
+  resolveChatOptions,
+} from "@/server/chat";
 
 export const aiRouter = createTRPCRouter({
+  // Models the chat's settings can pick from
+  listModels: protectedProcedure.query(() => {
+    return { models: allowedModels, defaultModel: llm.defaultModel };
+  }),
+
   generateStream: protectedProcedure
-    .input(z.object({ prompt: z.string().min(1) }))
+    .input(
+      z.object({
+        prompt: z.string().min(1),
+        conversationId: z.number(),
+        // Saved on the conversation; without it the saved settings are used
+        settings: chatSettingsSchema
+          .extend({ model: z.enum(allowedModels).nullable() })
+          .optional(),
+      })
+    )
     // Use async generator syntax directly
     .subscription(async function* ({ input, ctx }) { // Add ctx if needed later
       console.log(`Starting subscription for user ${ctx.user.uid} prompt: ${input.prompt}`);
+      // Store both sides of the exchange so the conversation can be reopened from History
+      await assertConversationOwner(input.conversationId, ctx.user.uid);
+      const options = await resolveChatOptions(input.conversationId, input.settings);
+      await addChatMessage(input.conversationId, ChatRole.USER, input.prompt);
+      let reply = "";
       try {
-        const stream = generateGeminiStream(input.prompt);
+        // The saved prompt is the last turn of the context
+        const context = await loadChatContext(input.conversationId, options);
+        const stream = llm.streamChat(context, options);
         for await (const chunk of stream) {
           // Ensure chunk is a string before yielding
           if (typeof chunk === 'string') {
+            reply += chunk;
             yield chunk; // Directly yield the chunk
           } else {
             console.warn("Non-string chunk received from generator:", chunk);
@@ -32,6 +62,11 @@ export const aiRouter = createTRPCRouter({
           message: "Failed to generate AI response.",
           cause: error instanceof Error ? error : undefined,
         });
+      } finally {
+        // Also runs when the client stops listening, so a partial reply is kept too
+        if (reply !== "") {
+          await addChatMessage(input.conversationId, ChatRole.ASSISTANT, reply);
+        }
       }
       // Optional: Add cleanup logic here if necessary, e.g., closing resources
       // It will run when the subscription is cancelled or ends
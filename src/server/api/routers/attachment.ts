@@ -0,0 +1,64 @@
+import { MemberRole } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db"; // Import Prisma client
+import { todoAccessWhere } from "@/server/access";
+import { bumpTodoVersion } from "@/server/concurrency";
+import { publishTodoChanges } from "@/server/realtime";
+import { storage } from "@/server/storage";
+
+// Uploads go through the /api/attachments route handler; see src/app/api/attachments
+export const attachmentRouter = createTRPCRouter({
+	list: protectedProcedure
+		.input(
+			z.object({
+				todoId: z.number(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			return db.attachment.findMany({
+				where: {
+					todoId: input.todoId,
+					todo: todoAccessWhere(ctx.user.uid), // Only attachments of todos the user can see
+				},
+				orderBy: {
+					createdAt: "asc",
+				},
+				include: { uploader: { select: { id: true, email: true } } },
+			});
+		}),
+
+	delete: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			// The uploader and anyone who may edit the todo can remove a file
+			const attachment = await db.attachment.findFirst({
+				where: {
+					id: input.id,
+					OR: [
+						{ uploaderId: ctx.user.uid, todo: todoAccessWhere(ctx.user.uid) },
+						{ todo: todoAccessWhere(ctx.user.uid, MemberRole.EDITOR) },
+					],
+				},
+				select: { id: true, todoId: true, storageKey: true },
+			});
+			if (!attachment) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Attachment not found or delete failed",
+				});
+			}
+
+			await db.attachment.delete({ where: { id: attachment.id } });
+			await storage.delete(attachment.storageKey);
+			await bumpTodoVersion(attachment.todoId);
+			await publishTodoChanges("updated", [attachment.todoId]);
+			return { success: true };
+		}),
+});
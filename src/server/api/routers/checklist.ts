@@ -0,0 +1,196 @@
+import { MemberRole } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { type PositionedList, positionBetweenIds } from "@/lib/list-position";
+import { positionBetween } from "@/lib/todo-position";
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db"; // Import Prisma client
+import { todoAccessWhere } from "@/server/access";
+import { bumpTodoVersion } from "@/server/concurrency";
+import { publishTodoChanges } from "@/server/realtime";
+
+// A todo's checklist as a sorted list, for dropping items between neighbours
+const checklistOf = (todoId: number): PositionedList => ({
+	positionOf: async (id) => {
+		const item = await db.todoChecklistItem.findFirst({
+			where: { id, todoId },
+			select: { position: true },
+		});
+		return item?.position ?? null;
+	},
+	orderedIds: async () => {
+		const items = await db.todoChecklistItem.findMany({
+			where: { todoId },
+			orderBy: [{ position: "asc" }, { id: "asc" }],
+			select: { id: true },
+		});
+		return items.map((item) => item.id);
+	},
+	setPositions: (items) =>
+		db.$transaction(
+			items.map(({ id, position }) =>
+				db.todoChecklistItem.update({ where: { id }, data: { position } }),
+			),
+		),
+});
+
+export const checklistRouter = createTRPCRouter({
+	add: protectedProcedure
+		.input(
+			z.object({
+				todoId: z.number(),
+				text: z.string().trim().min(1, "Text is required"),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			// Only allow adding steps to todos the user may edit, outside the trash
+			const todo = await db.todo.findFirst({
+				where: {
+					id: input.todoId,
+					deletedAt: null,
+					...todoAccessWhere(ctx.user.uid, MemberRole.EDITOR),
+				},
+				select: { id: true },
+			});
+			if (!todo) {
+				throw new TRPCError({ code: "NOT_FOUND", message: "Todo not found" });
+			}
+
+			// New steps go to the end of the checklist
+			const { _max } = await db.todoChecklistItem.aggregate({
+				where: { todoId: input.todoId },
+				_max: { position: true },
+			});
+			const item = await db.todoChecklistItem.create({
+				data: {
+					todoId: input.todoId,
+					text: input.text,
+					position: positionBetween(_max.position ?? undefined, undefined),
+				},
+			});
+			await bumpTodoVersion(input.todoId);
+			await publishTodoChanges("updated", [input.todoId]);
+			return item;
+		}),
+
+	toggle: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+				done: z.boolean(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			// UpdateMany ensures we only update if the user may edit the parent todo, outside the trash
+			const { count } = await db.todoChecklistItem.updateMany({
+				where: {
+					id: input.id,
+					todo: {
+						deletedAt: null,
+						...todoAccessWhere(ctx.user.uid, MemberRole.EDITOR),
+					},
+				},
+				data: {
+					done: input.done,
+				},
+			});
+
+			if (count === 0) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Checklist item not found or update failed",
+				});
+			}
+			const item = await db.todoChecklistItem.findUniqueOrThrow({
+				where: { id: input.id },
+				select: { todoId: true },
+			});
+			await bumpTodoVersion(item.todoId);
+			await publishTodoChanges("updated", [item.todoId]);
+			return { success: true };
+		}),
+
+	reorder: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+				// Neighbours in the same checklist after the move; null at either end
+				prevId: z.number().nullable(),
+				nextId: z.number().nullable(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const item = await db.todoChecklistItem.findFirst({
+				where: {
+					id: input.id,
+					todo: {
+						deletedAt: null,
+						...todoAccessWhere(ctx.user.uid, MemberRole.EDITOR),
+					},
+				},
+				select: { todoId: true },
+			});
+			if (!item) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Checklist item not found",
+				});
+			}
+
+			const position = await positionBetweenIds(
+				checklistOf(item.todoId),
+				input.prevId,
+				input.nextId,
+			);
+			if (position === null) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Neighbours must be items of the same checklist",
+				});
+			}
+			await db.todoChecklistItem.update({
+				where: { id: input.id }, // Ownership was checked above
+				data: { position },
+			});
+			await bumpTodoVersion(item.todoId);
+			await publishTodoChanges("updated", [item.todoId]);
+			return { success: true, position };
+		}),
+
+	remove: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			// Remember the parent todo for the realtime update; the item is gone afterwards
+			const item = await db.todoChecklistItem.findUnique({
+				where: { id: input.id },
+				select: { todoId: true },
+			});
+			// deleteMany ensures we only delete if the user may edit the parent todo, outside the trash
+			const { count } = await db.todoChecklistItem.deleteMany({
+				where: {
+					id: input.id,
+					todo: {
+						deletedAt: null,
+						...todoAccessWhere(ctx.user.uid, MemberRole.EDITOR),
+					},
+				},
+			});
+
+			if (count === 0) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Checklist item not found or delete failed",
+				});
+			}
+			if (item) {
+				await bumpTodoVersion(item.todoId);
+				await publishTodoChanges("updated", [item.todoId]);
+			}
+			return { success: true };
+		}),
+});
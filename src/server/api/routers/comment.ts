@@ -0,0 +1,123 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db"; // Import Prisma client
+import { todoAccessWhere } from "@/server/access";
+import { publishTodoChanges } from "@/server/realtime";
+
+const commentBodySchema = z
+	.string()
+	.trim()
+	.min(1, "Comment can't be empty")
+	.max(10_000, "Comment is too long");
+
+const authorSelect = { select: { id: true, email: true } } as const;
+
+// Throws unless the todo exists, isn't in the trash and the user can see it
+const assertTodoVisible = async (todoId: number, userId: string) => {
+	const todo = await db.todo.findFirst({
+		where: { id: todoId, deletedAt: null, ...todoAccessWhere(userId) },
+		select: { id: true },
+	});
+	if (!todo) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Todo not found" });
+	}
+};
+
+export const commentRouter = createTRPCRouter({
+	list: protectedProcedure
+		.input(
+			z.object({
+				todoId: z.number(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			await assertTodoVisible(input.todoId, ctx.user.uid);
+			return db.todoComment.findMany({
+				where: { todoId: input.todoId },
+				orderBy: [{ createdAt: "asc" }, { id: "asc" }], // Oldest first, like a chat
+				include: { author: authorSelect },
+			});
+		}),
+
+	// Anyone who can see the todo can join the discussion, viewers included
+	create: protectedProcedure
+		.input(
+			z.object({
+				todoId: z.number(),
+				body: commentBodySchema,
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			await assertTodoVisible(input.todoId, ctx.user.uid);
+			const comment = await db.todoComment.create({
+				data: {
+					todoId: input.todoId,
+					body: input.body,
+					authorId: ctx.user.uid, // Link to the authenticated user
+				},
+				include: { author: authorSelect },
+			});
+			await publishTodoChanges("updated", [input.todoId]); // Refreshes the comment count on cards
+			return comment;
+		}),
+
+	update: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+				body: commentBodySchema,
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			// UpdateMany ensures we only update if the user wrote the comment and still sees the todo
+			const { count } = await db.todoComment.updateMany({
+				where: {
+					id: input.id,
+					authorId: ctx.user.uid,
+					todo: { deletedAt: null, ...todoAccessWhere(ctx.user.uid) },
+				},
+				data: { body: input.body },
+			});
+
+			if (count === 0) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Comment not found or update failed",
+				});
+			}
+			return { success: true };
+		}),
+
+	delete: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			// Remember the todo for the realtime update; the comment is gone afterwards
+			const comment = await db.todoComment.findUnique({
+				where: { id: input.id },
+				select: { todoId: true },
+			});
+			// deleteMany ensures we only delete if the user wrote the comment and still sees the todo
+			const { count } = await db.todoComment.deleteMany({
+				where: {
+					id: input.id,
+					authorId: ctx.user.uid,
+					todo: { deletedAt: null, ...todoAccessWhere(ctx.user.uid) },
+				},
+			});
+
+			if (count === 0) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Comment not found or delete failed",
+				});
+			}
+			if (comment) await publishTodoChanges("updated", [comment.todoId]);
+			return { success: true };
+		}),
+});
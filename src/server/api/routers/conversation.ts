@@ -0,0 +1,110 @@
+import { z } from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db"; // Import Prisma client
+import {
+	CONVERSATION_TITLE_MAX_LENGTH,
+	assertConversationOwner,
+	chatSettingsSelect,
+} from "@/server/chat";
+
+const DEFAULT_CONVERSATION_TITLE = "New chat";
+
+const conversationSelect = {
+	id: true,
+	title: true,
+	createdAt: true,
+	updatedAt: true,
+} as const;
+
+// Messages are added through ai.generateStream, which stores both the prompt and the reply
+export const conversationRouter = createTRPCRouter({
+	list: protectedProcedure.query(async ({ ctx }) => {
+		return db.conversation.findMany({
+			where: { userId: ctx.user.uid },
+			orderBy: [{ updatedAt: "desc" }, { id: "desc" }], // Most recently active first
+			select: conversationSelect,
+		});
+	}),
+
+	// A conversation with its generation settings, for reopening it
+	get: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			await assertConversationOwner(input.id, ctx.user.uid);
+			return db.conversation.findUniqueOrThrow({
+				where: { id: input.id },
+				select: { ...conversationSelect, ...chatSettingsSelect },
+			});
+		}),
+
+	create: protectedProcedure
+		.input(
+			z.object({
+				title: z.string().trim().min(1).max(10_000).optional(), // Usually the first prompt
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			return db.conversation.create({
+				data: {
+					title:
+						input.title?.slice(0, CONVERSATION_TITLE_MAX_LENGTH) ??
+						DEFAULT_CONVERSATION_TITLE,
+					userId: ctx.user.uid, // Link to the authenticated user
+				},
+				select: conversationSelect,
+			});
+		}),
+
+	rename: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+				title: z
+					.string()
+					.trim()
+					.min(1, "Title can't be empty")
+					.max(CONVERSATION_TITLE_MAX_LENGTH, "Title is too long"),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			await assertConversationOwner(input.id, ctx.user.uid);
+			return db.conversation.update({
+				where: { id: input.id },
+				data: { title: input.title },
+				select: conversationSelect,
+			});
+		}),
+
+	// Deletes the conversation with all of its messages
+	delete: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			await assertConversationOwner(input.id, ctx.user.uid);
+			await db.conversation.delete({ where: { id: input.id } });
+			return { success: true };
+		}),
+
+	messages: protectedProcedure
+		.input(
+			z.object({
+				conversationId: z.number(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			await assertConversationOwner(input.conversationId, ctx.user.uid);
+			return db.chatMessage.findMany({
+				where: { conversationId: input.conversationId },
+				orderBy: [{ createdAt: "asc" }, { id: "asc" }], // Oldest first
+				select: { id: true, role: true, content: true, createdAt: true },
+			});
+		}),
+});
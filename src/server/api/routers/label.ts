@@ -0,0 +1,123 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db"; // Import Prisma client
+
+const labelColorSchema = z
+	.string()
+	.regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #64748b");
+
+// Throws if the user already has a label with this name (other than `exceptId`)
+const assertNameAvailable = async (
+	userId: string,
+	name: string,
+	exceptId?: number,
+) => {
+	const existing = await db.label.findFirst({
+		where: { userId, name, id: exceptId ? { not: exceptId } : undefined },
+		select: { id: true },
+	});
+	if (existing) {
+		throw new TRPCError({
+			code: "CONFLICT",
+			message: `A label named "${name}" already exists`,
+		});
+	}
+};
+
+export const labelRouter = createTRPCRouter({
+	create: protectedProcedure
+		.input(
+			z.object({
+				name: z.string().trim().min(1, "Name is required"),
+				color: labelColorSchema.optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			await assertNameAvailable(ctx.user.uid, input.name);
+			return db.label.create({
+				data: {
+					name: input.name,
+					color: input.color,
+					userId: ctx.user.uid, // Link to the authenticated user
+				},
+			});
+		}),
+
+	getAll: protectedProcedure.query(async ({ ctx }) => {
+		return db.label.findMany({
+			where: {
+				userId: ctx.user.uid, // Only fetch labels for the logged-in user
+			},
+			orderBy: {
+				name: "asc",
+			},
+		});
+	}),
+
+	update: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+				name: z.string().trim().min(1).optional(),
+				color: labelColorSchema.optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const dataToUpdate: { name?: string; color?: string } = {};
+			if (input.name !== undefined) {
+				await assertNameAvailable(ctx.user.uid, input.name, input.id);
+				dataToUpdate.name = input.name;
+			}
+			if (input.color !== undefined) {
+				dataToUpdate.color = input.color;
+			}
+
+			if (Object.keys(dataToUpdate).length === 0) {
+				return { success: true, message: "No changes provided" };
+			}
+
+			// UpdateMany ensures we only update if the user owns the label
+			const { count } = await db.label.updateMany({
+				where: {
+					id: input.id,
+					userId: ctx.user.uid,
+				},
+				data: dataToUpdate,
+			});
+
+			if (count === 0) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Label not found or update failed",
+				});
+			}
+			return { success: true };
+		}),
+
+	delete: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			// deleteMany ensures we only delete if the user owns the label.
+			// Todos keep existing; only their link to this label is removed.
+			const { count } = await db.label.deleteMany({
+				where: {
+					id: input.id,
+					userId: ctx.user.uid,
+				},
+			});
+
+			if (count === 0) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Label not found or delete failed",
+				});
+			}
+			return { success: true };
+		}),
+});
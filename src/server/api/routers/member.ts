@@ -0,0 +1,255 @@
+import { MemberRole } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db"; // Import Prisma client
+import { assertProjectAccess } from "@/server/access";
+
+// Loads a membership of the project, throwing if there is none
+const findMembership = async (projectId: number, userId: string) => {
+	const membership = await db.projectMember.findUnique({
+		where: { projectId_userId: { projectId, userId } },
+	});
+	if (!membership) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Member not found" });
+	}
+	return membership;
+};
+
+export const memberRouter = createTRPCRouter({
+	list: protectedProcedure
+		.input(
+			z.object({
+				projectId: z.number(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			await assertProjectAccess(
+				input.projectId,
+				ctx.user.uid,
+				MemberRole.VIEWER,
+			);
+			const project = await db.project.findUniqueOrThrow({
+				where: { id: input.projectId },
+				select: {
+					user: { select: { id: true, email: true } },
+					members: {
+						orderBy: { invitedAt: "asc" },
+						include: { user: { select: { id: true, email: true } } },
+					},
+				},
+			});
+			return {
+				creator: project.user, // Always an owner; has no membership row
+				members: project.members,
+			};
+		}),
+
+	invite: protectedProcedure
+		.input(
+			z.object({
+				projectId: z.number(),
+				email: z.string().trim().email("Enter a valid email"),
+				role: z.nativeEnum(MemberRole).default(MemberRole.VIEWER),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			await assertProjectAccess(
+				input.projectId,
+				ctx.user.uid,
+				MemberRole.OWNER,
+			);
+
+			// Only users who have signed in at least once can be invited
+			const user = await db.user.findUnique({
+				where: { email: input.email },
+				select: { id: true },
+			});
+			if (!user) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: `No user with the email ${input.email}`,
+				});
+			}
+
+			const [project, existing] = await Promise.all([
+				db.project.findUniqueOrThrow({
+					where: { id: input.projectId },
+					select: { userId: true },
+				}),
+				db.projectMember.findUnique({
+					where: {
+						projectId_userId: { projectId: input.projectId, userId: user.id },
+					},
+					select: { id: true },
+				}),
+			]);
+			if (project.userId === user.id || existing) {
+				throw new TRPCError({
+					code: "CONFLICT",
+					message: `${input.email} is already a member of this project`,
+				});
+			}
+
+			// The membership stays pending until the invited user accepts it
+			return db.projectMember.create({
+				data: {
+					projectId: input.projectId,
+					userId: user.id,
+					role: input.role,
+				},
+			});
+		}),
+
+	updateRole: protectedProcedure
+		.input(
+			z.object({
+				projectId: z.number(),
+				userId: z.string(),
+				role: z.nativeEnum(MemberRole),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			await assertProjectAccess(
+				input.projectId,
+				ctx.user.uid,
+				MemberRole.OWNER,
+			);
+			await findMembership(input.projectId, input.userId);
+			await db.projectMember.update({
+				where: {
+					projectId_userId: {
+						projectId: input.projectId,
+						userId: input.userId,
+					},
+				},
+				data: { role: input.role },
+			});
+			return { success: true };
+		}),
+
+	remove: protectedProcedure
+		.input(
+			z.object({
+				projectId: z.number(),
+				userId: z.string(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			// Members may always leave; removing someone else requires the owner role
+			if (input.userId !== ctx.user.uid) {
+				await assertProjectAccess(
+					input.projectId,
+					ctx.user.uid,
+					MemberRole.OWNER,
+				);
+			}
+			await findMembership(input.projectId, input.userId);
+			// Former members can't work on the project's todos anymore
+			await db.$transaction([
+				db.todo.updateMany({
+					where: { projectId: input.projectId, assigneeId: input.userId },
+					data: { assigneeId: null },
+				}),
+				db.projectMember.delete({
+					where: {
+						projectId_userId: {
+							projectId: input.projectId,
+							userId: input.userId,
+						},
+					},
+				}),
+			]);
+			return { success: true };
+		}),
+
+	// Users who can be assigned to todos in the project (null = todos outside any project)
+	assignable: protectedProcedure
+		.input(
+			z.object({
+				projectId: z.number().nullable(),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			if (input.projectId === null) {
+				// Todos outside any project are private, so only their creator qualifies
+				return db.user.findMany({
+					where: { id: ctx.user.uid },
+					select: { id: true, email: true },
+				});
+			}
+			await assertProjectAccess(
+				input.projectId,
+				ctx.user.uid,
+				MemberRole.VIEWER,
+			);
+			return db.user.findMany({
+				where: {
+					OR: [
+						{ projects: { some: { id: input.projectId } } },
+						{
+							memberships: {
+								some: {
+									projectId: input.projectId,
+									acceptedAt: { not: null },
+									role: { not: MemberRole.VIEWER },
+								},
+							},
+						},
+					],
+				},
+				orderBy: { email: "asc" },
+				select: { id: true, email: true },
+			});
+		}),
+
+	listInvitations: protectedProcedure.query(async ({ ctx }) => {
+		return db.projectMember.findMany({
+			where: {
+				userId: ctx.user.uid,
+				acceptedAt: null, // Pending invitations only
+			},
+			orderBy: {
+				invitedAt: "desc",
+			},
+			include: {
+				project: {
+					select: {
+						id: true,
+						name: true,
+						user: { select: { email: true } }, // Who shared it
+					},
+				},
+			},
+		});
+	}),
+
+	respond: protectedProcedure
+		.input(
+			z.object({
+				projectId: z.number(),
+				accept: z.boolean(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const membership = await findMembership(input.projectId, ctx.user.uid);
+			if (membership.acceptedAt) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Invitation was already accepted",
+				});
+			}
+
+			// Declining removes the invitation so the owner can invite again later
+			if (input.accept) {
+				await db.projectMember.update({
+					where: { id: membership.id },
+					data: { acceptedAt: new Date() },
+				});
+			} else {
+				await db.projectMember.delete({ where: { id: membership.id } });
+			}
+			return { success: true };
+		}),
+});
@@ -0,0 +1,109 @@
+import { MemberRole } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { db } from "@/server/db"; // Import Prisma client
+import { assertProjectAccess, projectAccessWhere } from "@/server/access";
+import { deleteStoredAttachments } from "@/server/storage";
+
+export const projectRouter = createTRPCRouter({
+	create: protectedProcedure
+		.input(
+			z.object({
+				name: z.string().min(1, "Name is required"),
+				description: z.string().optional(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			return db.project.create({
+				data: {
+					name: input.name,
+					description: input.description,
+					userId: ctx.user.uid, // Link to the authenticated user
+				},
+			});
+		}),
+
+	getAll: protectedProcedure.query(async ({ ctx }) => {
+		const projects = await db.project.findMany({
+			where: projectAccessWhere(ctx.user.uid), // Own projects and the ones shared with the user
+			orderBy: {
+				createdAt: "asc", // Keep the switcher order stable
+			},
+			include: {
+				_count: { select: { todos: { where: { deletedAt: null } } } }, // Todo count for the switcher, excluding the trash
+				members: {
+					where: { userId: ctx.user.uid },
+					select: { role: true },
+				},
+			},
+		});
+		// Flatten the user's own membership into the role they have on each project
+		return projects.map(({ members, ...project }) => ({
+			...project,
+			role:
+				project.userId === ctx.user.uid
+					? MemberRole.OWNER
+					: (members[0]?.role ?? MemberRole.VIEWER),
+		}));
+	}),
+
+	update: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+				name: z.string().min(1).optional(),
+				description: z.string().nullable().optional(), // Allow clearing description
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const dataToUpdate: { name?: string; description?: string | null } = {};
+			if (input.name !== undefined) {
+				dataToUpdate.name = input.name;
+			}
+			if (input.description !== undefined) {
+				dataToUpdate.description = input.description;
+			}
+
+			if (Object.keys(dataToUpdate).length === 0) {
+				return { success: true, message: "No changes provided" };
+			}
+
+			// Renaming is reserved for owners, including members promoted to owner
+			await assertProjectAccess(input.id, ctx.user.uid, MemberRole.OWNER);
+			await db.project.update({
+				where: { id: input.id },
+				data: dataToUpdate,
+			});
+			return { success: true };
+		}),
+
+	delete: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			// deleteMany ensures we only delete if the user created the project.
+			// The project's todos are removed by the cascade on Todo.projectId.
+			await deleteStoredAttachments({
+				todo: { project: { id: input.id, userId: ctx.user.uid } },
+			});
+			const { count } = await db.project.deleteMany({
+				where: {
+					id: input.id,
+					userId: ctx.user.uid,
+				},
+			});
+
+			if (count === 0) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Project not found or delete failed",
+				});
+			}
+			return { success: true };
+		}),
+});
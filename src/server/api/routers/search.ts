@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
+import { searchTodos } from "@/server/search";
+
+export const searchRouter = createTRPCRouter({
+	// Full-text search for the command palette; matches are wrapped in the markers from lib/search
+	query: protectedProcedure
+		.input(
+			z.object({
+				query: z.string().trim().min(1).max(200),
+				limit: z.number().int().min(1).max(50).default(20),
+			}),
+		)
+		.query(async ({ ctx, input }) => {
+			return searchTodos(ctx.user.uid, input.query, input.limit);
+		}),
+});
@@ -1,62 +1,1128 @@
 import { z } from "zod";
-import { TodoStatus } from "@prisma/client"; // Import enum from Prisma
+import {
+	MemberRole,
+	type Prisma,
+	RecurrenceFrequency,
+	TodoEventType,
+	TodoPriority,
+	TodoStatus,
+} from "@prisma/client"; // Import enum from Prisma
+import { TRPCError } from "@trpc/server";
 
 import { createTRPCRouter, protectedProcedure } from "@/server/api/trpc";
 import { db } from "@/server/db"; // Import Prisma client
+import { MAX_BULK_TODOS } from "@/lib/todo-bulk";
+import { type PositionedList, positionBetweenIds } from "@/lib/list-position";
+import { positionBetween } from "@/lib/todo-position";
+import { nextOccurrenceDate } from "@/lib/todo-recurrence";
+import { findDueReminders } from "@/server/reminders";
+import { purgeExpiredTrash } from "@/server/trash";
+import { deleteStoredAttachments } from "@/server/storage";
+import {
+	publishTodoChanges,
+	publishTodoMove,
+	todoChanges,
+} from "@/server/realtime";
+import { type TodoEventInput, recordTodoEvents } from "@/server/activity";
+import {
+	assertProjectAccess,
+	projectAccessWhere,
+	projectRoleOf,
+	todoAccessWhere,
+} from "@/server/access";
+import {
+	assertTodoVersion,
+	guardTodoVersion,
+	todoListInclude,
+} from "@/server/concurrency";
+import {
+	type ImportedRow,
+	parseTodoFile,
+	parseTodoStatus,
+	serializeTodos,
+	todoTransferFormats,
+} from "@/server/todo-transfer";
+
+// Keys todo.getAll can sort by ("position" is the manual order)
+const todoSortKeys = [
+	"createdAt",
+	"updatedAt",
+	"title",
+	"status",
+	"position",
+	"dueAt",
+	"priority",
+] as const;
+
+// Sort rank stored alongside each priority; SQLite would order the enum alphabetically
+const priorityRank: Record<TodoPriority, number> = {
+	[TodoPriority.NONE]: 0,
+	[TodoPriority.LOW]: 1,
+	[TodoPriority.MEDIUM]: 2,
+	[TodoPriority.HIGH]: 3,
+	[TodoPriority.URGENT]: 4,
+};
+
+// Statuses that count as finished, so their due dates no longer matter
+const closedStatuses: TodoStatus[] = [TodoStatus.DONE, TodoStatus.CANCELED];
+
+// A todo's place on the board: the status column of its project, or of its creator's todos outside projects
+interface TodoColumn {
+	userId: string;
+	projectId: number | null;
+	status: TodoStatus;
+}
+
+// The todos that share a column, so every member orders a shared project's column together
+const columnWhere = ({ userId, projectId, status }: TodoColumn) =>
+	({
+		...(projectId === null ? { projectId: null, userId } : { projectId }),
+		status,
+		deletedAt: null,
+	}) satisfies Prisma.TodoWhereInput;
+
+// Position that places a todo above everything else in its status column
+const topPositionOf = async (
+	column: TodoColumn,
+	client: Prisma.TransactionClient = db, // Pass the transaction client inside $transaction
+) => {
+	const { _min } = await client.todo.aggregate({
+		where: columnWhere(column),
+		_min: { position: true },
+	});
+	return positionBetween(undefined, _min.position ?? undefined);
+};
+
+// A status column as a sorted list, for dropping todos between neighbours
+const columnList = (column: TodoColumn): PositionedList => ({
+	positionOf: async (id) => {
+		const todo = await db.todo.findFirst({
+			where: { id, ...columnWhere(column) },
+			select: { position: true },
+		});
+		return todo?.position ?? null;
+	},
+	orderedIds: async () => {
+		const todos = await db.todo.findMany({
+			where: columnWhere(column),
+			orderBy: [{ position: "asc" }, { id: "asc" }],
+			select: { id: true },
+		});
+		return todos.map((todo) => todo.id);
+	},
+	setPositions: (items) =>
+		db.$transaction(
+			items.map(({ id, position }) =>
+				db.todo.update({ where: { id }, data: { position } }),
+			),
+		),
+});
+
+// Repeat rule for create/updateDetails; null stops a todo from repeating
+const recurrenceSchema = z
+	.object({
+		frequency: z.nativeEnum(RecurrenceFrequency),
+		interval: z.number().int().min(1).max(365).default(1),
+		endsAt: z.date().nullable().optional(),
+		count: z.number().int().min(1).max(1000).nullable().optional(),
+	})
+	.nullable()
+	.optional();
+
+// Maps a recurrence input onto the Todo columns that store it
+const recurrenceData = (rule: z.infer<typeof recurrenceSchema>) => ({
+	recurrence: rule?.frequency ?? null,
+	recurrenceInterval: rule?.interval ?? 1,
+	recurrenceEndsAt: rule?.endsAt ?? null,
+	recurrenceCount: rule?.count ?? null,
+});
+
+/**
+ * Creates the next occurrence of a recurring todo that was just completed. Labels, priority and
+ * the checklist (unchecked) carry over; due and reminder dates shift by one interval.
+ *
+ * Returns the new todo's id, or null when the todo doesn't repeat, the series has ended, or the
+ * next occurrence already exists (e.g. the todo was reopened and completed again).
+ */
+const createNextOccurrence = async (
+	tx: Prisma.TransactionClient,
+	todoId: number,
+	actorId: string, // The user who completed the todo, for the history
+) => {
+	const todo = await tx.todo.findUnique({
+		where: { id: todoId },
+		include: {
+			labels: { select: { id: true } },
+			checklistItems: { orderBy: [{ position: "asc" }, { id: "asc" }] },
+			nextOccurrence: { select: { id: true } },
+		},
+	});
+	if (!todo?.recurrence || todo.nextOccurrence) return null;
+	if (
+		todo.recurrenceCount !== null &&
+		todo.occurrence >= todo.recurrenceCount
+	) {
+		return null;
+	}
+
+	// Undated todos repeat from the moment they were completed
+	const anchor = todo.dueAt ?? new Date();
+	const nextAnchor = nextOccurrenceDate(anchor, {
+		frequency: todo.recurrence,
+		interval: todo.recurrenceInterval,
+	});
+	if (todo.recurrenceEndsAt && nextAnchor > todo.recurrenceEndsAt) return null;
+	const shift = nextAnchor.getTime() - anchor.getTime();
+
+	const next = await tx.todo.create({
+		data: {
+			title: todo.title,
+			description: todo.description,
+			userId: todo.userId, // The series stays with its creator
+			projectId: todo.projectId,
+			assigneeId: todo.assigneeId,
+			priority: todo.priority,
+			priorityRank: todo.priorityRank,
+			status: TodoStatus.TODO,
+			position: await topPositionOf({ ...todo, status: TodoStatus.TODO }, tx),
+			dueAt: todo.dueAt ? nextAnchor : null,
+			remindAt: todo.remindAt
+				? new Date(todo.remindAt.getTime() + shift)
+				: null,
+			recurrence: todo.recurrence,
+			recurrenceInterval: todo.recurrenceInterval,
+			recurrenceEndsAt: todo.recurrenceEndsAt,
+			recurrenceCount: todo.recurrenceCount,
+			occurrence: todo.occurrence + 1,
+			previousOccurrenceId: todo.id,
+			labels: { connect: todo.labels },
+			checklistItems: {
+				create: todo.checklistItems.map((item) => ({
+					text: item.text,
+					position: item.position,
+				})),
+			},
+		},
+	});
+	await recordTodoEvents(
+		[
+			{
+				todoId: next.id,
+				userId: actorId,
+				type: TodoEventType.CREATED,
+				after: {
+					title: next.title,
+					status: next.status,
+					occurrence: next.occurrence,
+				},
+			},
+		],
+		tx,
+	);
+	return next.id;
+};
+
+// Input for todo.create; todo.import validates every row with it too
+const todoCreateInput = z.object({
+	title: z.string().min(1, "Title is required"),
+	description: z.string().optional(),
+	projectId: z.number().nullable().optional(), // Project to file the todo under
+	dueAt: z.date().nullable().optional(),
+	remindAt: z.date().nullable().optional(),
+	labelIds: z.array(z.number()).optional(),
+	priority: z.nativeEnum(TodoPriority).optional(),
+	recurrence: recurrenceSchema,
+});
+
+// Creates a todo on top of its status column and records it in the history
+const insertTodo = async (
+	tx: Prisma.TransactionClient,
+	userId: string,
+	input: z.infer<typeof todoCreateInput>,
+	status: TodoStatus = TodoStatus.TODO,
+) => {
+	const todo = await tx.todo.create({
+		data: {
+			title: input.title,
+			description: input.description,
+			userId, // Link to the authenticated user
+			projectId: input.projectId ?? null,
+			dueAt: input.dueAt ?? null,
+			remindAt: input.remindAt ?? null,
+			priority: input.priority,
+			priorityRank: input.priority ? priorityRank[input.priority] : undefined,
+			labels: input.labelIds
+				? { connect: input.labelIds.map((id) => ({ id })) }
+				: undefined,
+			...recurrenceData(input.recurrence),
+			status,
+			position: await topPositionOf(
+				{ userId, projectId: input.projectId ?? null, status },
+				tx,
+			), // New todos go on top
+		},
+	});
+	await recordTodoEvents(
+		[
+			{
+				todoId: todo.id,
+				userId,
+				type: TodoEventType.CREATED,
+				after: { title: todo.title, status: todo.status },
+			},
+		],
+		tx,
+	);
+	return todo;
+};
+
+/**
+ * Turns a row of an import file into todo.create input and validates it with the same schema.
+ * Status strings from other tools are mapped onto TodoStatus, label names onto the user's labels
+ * and project names onto the projects they can edit. Unless the import goes to a chosen project,
+ * a row whose project isn't found is imported outside projects with a warning.
+ */
+const toImportedTodo = (
+	row: ImportedRow,
+	labelIdByName: Map<string, number>,
+	projectIdByName: Map<string, number>,
+	targetProjectId: number | null,
+) => {
+	const errors: string[] = [];
+	const warnings: string[] = [];
+	const text = (value: unknown) =>
+		typeof value === "string"
+			? value.trim() || undefined
+			: (value ?? undefined);
+	const date = (value: unknown) =>
+		typeof value === "string" ? new Date(value) : (value ?? undefined);
+
+	let status: TodoStatus = TodoStatus.TODO;
+	const rawStatus = text(row.status);
+	if (rawStatus !== undefined) {
+		const mapped =
+			typeof rawStatus === "string" ? parseTodoStatus(rawStatus) : null;
+		if (mapped) status = mapped;
+		else errors.push(`status: Unknown status "${String(rawStatus)}"`);
+	}
+
+	const labelNames =
+		typeof row.labels === "string"
+			? row.labels.split(";")
+			: Array.isArray(row.labels)
+				? row.labels
+				: [];
+	const labelIds: number[] = [];
+	for (const name of labelNames) {
+		const id =
+			typeof name === "string"
+				? labelIdByName.get(name.trim().toLowerCase())
+				: undefined;
+		if (id !== undefined) labelIds.push(id);
+		else if (String(name).trim())
+			errors.push(`labels: Unknown label "${name}"`);
+	}
+
+	let projectId = targetProjectId;
+	const projectName = text(row.project);
+	if (targetProjectId === null && typeof projectName === "string") {
+		projectId = projectIdByName.get(projectName.toLowerCase()) ?? null;
+		if (projectId === null) {
+			warnings.push(
+				`project: Unknown project "${projectName}", imported without a project`,
+			);
+		}
+	}
+
+	const priority = text(row.priority);
+	const parsed = todoCreateInput.safeParse({
+		title: text(row.title),
+		description: text(row.description),
+		projectId,
+		dueAt: date(row.dueAt),
+		remindAt: date(row.remindAt),
+		labelIds,
+		priority:
+			typeof priority === "string"
+				? priority.toUpperCase().replace(/\s+/g, "_")
+				: priority,
+	});
+	if (!parsed.success) {
+		errors.push(
+			...parsed.error.issues.map(
+				(issue) => `${issue.path.join(".")}: ${issue.message}`,
+			),
+		);
+	}
+	return {
+		data: parsed.success && errors.length === 0 ? parsed.data : null,
+		status,
+		errors,
+		warnings,
+	};
+};
+
+// Optional date bounds, both inclusive
+const dateRangeSchema = z
+	.object({
+		from: z.date().optional(),
+		to: z.date().optional(),
+	})
+	.optional();
+
+// Input for todo.getAll: cursor pagination plus filters and sorting
+const todoListInput = z.object({
+	// undefined = all todos, null = todos outside any project
+	projectId: z.number().nullable().optional(),
+	cursor: z.number().nullish(), // Id of the last todo of the previous page
+	limit: z.number().min(1).max(100).default(20),
+	status: z.array(z.nativeEnum(TodoStatus)).optional(), // Match any of these
+	priority: z.array(z.nativeEnum(TodoPriority)).optional(), // Match any of these
+	search: z.string().trim().optional(), // Matches title or description
+	createdAt: dateRangeSchema,
+	updatedAt: dateRangeSchema,
+	labelIds: z.array(z.number()).optional(), // Match todos with any of these labels
+	dueAt: dateRangeSchema, // e.g. "due today" / "this week", computed in the user's timezone
+	overdue: z.boolean().optional(), // Past due and not yet done or canceled
+	assignedToMe: z.boolean().optional(), // Only todos the user is responsible for
+	sortBy: z.enum(todoSortKeys).default("createdAt"),
+	sortOrder: z.enum(["asc", "desc"]).default("desc"), // Newest first by default
+});
+
+// Builds the Prisma filter for a todo list query, always scoped to what the user can see
+const buildTodoWhere = (
+	userId: string,
+	input: Omit<z.infer<typeof todoListInput>, "cursor" | "limit">,
+): Prisma.TodoWhereInput => {
+	const and: Prisma.TodoWhereInput[] = [todoAccessWhere(userId)];
+	const where: Prisma.TodoWhereInput = {
+		projectId: input.projectId,
+		deletedAt: null, // Trashed todos only show up in todo.listTrash
+	};
+
+	if (input.status && input.status.length > 0) {
+		where.status = { in: input.status };
+	}
+	if (input.priority && input.priority.length > 0) {
+		where.priority = { in: input.priority };
+	}
+	if (input.search) {
+		// SQLite LIKE is case-insensitive for ASCII, so `contains` is enough
+		where.OR = [
+			{ title: { contains: input.search } },
+			{ description: { contains: input.search } },
+		];
+	}
+	if (input.labelIds && input.labelIds.length > 0) {
+		where.labels = { some: { id: { in: input.labelIds } } };
+	}
+	if (input.assignedToMe) {
+		where.assigneeId = userId;
+	}
+	if (input.createdAt) {
+		where.createdAt = { gte: input.createdAt.from, lte: input.createdAt.to };
+	}
+	if (input.updatedAt) {
+		where.updatedAt = { gte: input.updatedAt.from, lte: input.updatedAt.to };
+	}
+	if (input.dueAt) {
+		where.dueAt = { gte: input.dueAt.from, lte: input.dueAt.to };
+	}
+	if (input.overdue) {
+		// Combine with any due range instead of replacing it
+		and.push(
+			{ dueAt: { lt: new Date() } },
+			{ status: { notIn: closedStatuses } },
+		);
+	}
+
+	where.AND = and;
+	return where;
+};
+
+// Sort order of a todo list; the id tie-breaker keeps cursors stable
+const todoOrderBy = (
+	sortBy: (typeof todoSortKeys)[number],
+	sortOrder: Prisma.SortOrder,
+): Prisma.TodoOrderByWithRelationInput[] => [
+	sortBy === "dueAt"
+		? { dueAt: { sort: sortOrder, nulls: "last" } } // Undated todos go last
+		: sortBy === "priority"
+			? { priorityRank: sortOrder }
+			: { [sortBy]: sortOrder },
+	{ id: sortOrder },
+];
+
+// Throws unless every label exists and belongs to the user
+const assertLabelsOwner = async (labelIds: number[], userId: string) => {
+	const uniqueIds = [...new Set(labelIds)];
+	const count = await db.label.count({
+		where: { id: { in: uniqueIds }, userId },
+	});
+	if (count !== uniqueIds.length) {
+		throw new TRPCError({ code: "NOT_FOUND", message: "Label not found" });
+	}
+};
+
+// Ids for a bulk operation; duplicates are ignored
+const bulkIdsSchema = z
+	.array(z.number())
+	.min(1, "Select at least one todo")
+	.max(MAX_BULK_TODOS, `At most ${MAX_BULK_TODOS} todos per bulk operation`);
+
+// Outcome of a bulk operation for a single todo id
+type BulkResult = { id: number; success: boolean; error?: string };
+
+// Splits requested ids into the ones the user may edit and per-id failures for the rest
+const partitionOwnedTodos = async (
+	tx: Prisma.TransactionClient,
+	ids: number[],
+	userId: string,
+	trashed = false, // Look for the todos in the trash instead
+) => {
+	const uniqueIds = [...new Set(ids)];
+	const owned = await tx.todo.findMany({
+		where: {
+			id: { in: uniqueIds },
+			deletedAt: trashed ? { not: null } : null,
+			...todoAccessWhere(userId, MemberRole.EDITOR),
+		},
+		select: { id: true, status: true, userId: true, projectId: true },
+	});
+	const todoById = new Map(owned.map((todo) => [todo.id, todo]));
+	const failures: BulkResult[] = uniqueIds
+		.filter((id) => !todoById.has(id))
+		.map((id) => ({ id, success: false, error: "Todo not found" }));
+	return {
+		ownedIds: uniqueIds.filter((id) => todoById.has(id)),
+		todoById, // Current status, creator and project of each editable todo
+		failures,
+	};
+};
+
+// Fields of updateDetails that are recorded in the history, one event per changed field
+const historyFields = [
+	"title",
+	"description",
+	"projectId",
+	"dueAt",
+	"remindAt",
+	"priority",
+	"recurrence",
+	"recurrenceInterval",
+	"recurrenceEndsAt",
+	"recurrenceCount",
+] as const;
+
+// Ids of the todos a bulk operation changed, for the realtime updates
+const succeededIds = (result: ReturnType<typeof bulkResults>) =>
+	result.results.filter((item) => item.success).map((item) => item.id);
+
+// Throws unless the user can edit the todo, so they can actually work on it once assigned
+const assertAssignable = async (todoId: number, assigneeId: string) => {
+	const count = await db.todo.count({
+		where: {
+			id: todoId,
+			...todoAccessWhere(assigneeId, MemberRole.EDITOR),
+		},
+	});
+	if (count === 0) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "The assignee needs edit access to the todo's project",
+		});
+	}
+};
+
+/**
+ * Throws unless moving the todo to `projectId` keeps it reachable for its creator. Todos outside
+ * projects are private to their creator, so only the creator or the project owner may take a todo
+ * out of a project, and a todo only goes into projects its creator can see.
+ */
+const assertProjectMove = async (
+	todo: { userId: string; projectId: number | null },
+	projectId: number | null,
+	userId: string,
+) => {
+	if (projectId === todo.projectId || todo.userId === userId) return;
+	if (projectId === null) {
+		const role =
+			todo.projectId === null
+				? null
+				: await projectRoleOf(todo.projectId, userId);
+		if (role === MemberRole.OWNER) return;
+		throw new TRPCError({
+			code: "FORBIDDEN",
+			message:
+				"Only the todo's creator or the project owner can move it out of the project",
+		});
+	}
+	const creatorAccess = await db.project.count({
+		where: { id: projectId, ...projectAccessWhere(todo.userId) },
+	});
+	if (creatorAccess === 0) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "The todo's creator has no access to that project",
+		});
+	}
+};
+
+// Compares stored values the way they end up in the history (dates as ISO strings)
+const isSameValue = (a: unknown, b: unknown) =>
+	JSON.stringify(a) === JSON.stringify(b);
+
+// Per-id results: successes first, then the ids that failed
+const bulkResults = (ownedIds: number[], failures: BulkResult[]) => ({
+	results: [
+		...ownedIds.map((id): BulkResult => ({ id, success: true })),
+		...failures,
+	],
+	updated: ownedIds.length,
+	failed: failures.length,
+});
 
 export const todoRouter = createTRPCRouter({
 	create: protectedProcedure
+		.input(todoCreateInput)
+		.mutation(async ({ ctx, input }) => {
+			if (input.projectId != null) {
+				await assertProjectAccess(
+					input.projectId,
+					ctx.user.uid,
+					MemberRole.EDITOR,
+				);
+			}
+			if (input.labelIds) {
+				await assertLabelsOwner(input.labelIds, ctx.user.uid);
+			}
+			const created = await db.$transaction((tx) =>
+				insertTodo(tx, ctx.user.uid, input),
+			);
+			await publishTodoChanges("created", [created.id]);
+			return created;
+		}),
+
+	getAll: protectedProcedure
+		.input(todoListInput)
+		.query(async ({ ctx, input }) => {
+			const { cursor, limit, sortBy, sortOrder } = input;
+
+			// Fetch one extra row to find out whether there is a next page
+			const items = await db.todo.findMany({
+				where: buildTodoWhere(ctx.user.uid, input),
+				orderBy: todoOrderBy(sortBy, sortOrder),
+				include: todoListInclude,
+				take: limit + 1,
+				cursor: cursor ? { id: cursor } : undefined,
+				skip: cursor ? 1 : 0, // Skip the cursor row itself
+			});
+
+			let nextCursor: number | undefined = undefined;
+			if (items.length > limit) {
+				const nextItem = items.pop();
+				nextCursor = nextItem?.id;
+			}
+
+			return { items, nextCursor };
+		}),
+
+	// A single todo in the list's shape, for links that open it (e.g. from search)
+	getById: protectedProcedure
+		.input(z.object({ id: z.number() }))
+		.query(async ({ ctx, input }) => {
+			const todo = await db.todo.findFirst({
+				where: {
+					id: input.id,
+					deletedAt: null,
+					...todoAccessWhere(ctx.user.uid),
+				},
+				include: todoListInclude,
+			});
+			if (!todo) {
+				throw new TRPCError({ code: "NOT_FOUND", message: "Todo not found" });
+			}
+			return todo;
+		}),
+
+	// Todos matching the list filters as a downloadable file
+	export: protectedProcedure
+		.input(
+			todoListInput
+				.omit({ cursor: true, limit: true })
+				.extend({ format: z.enum(todoTransferFormats) }),
+		)
+		.query(async ({ ctx, input }) => {
+			const todos = await db.todo.findMany({
+				where: buildTodoWhere(ctx.user.uid, input),
+				orderBy: todoOrderBy(input.sortBy, input.sortOrder),
+				include: {
+					labels: { select: { name: true }, orderBy: { name: "asc" } },
+					project: { select: { name: true } },
+				},
+			});
+			return serializeTodos(
+				input.format,
+				todos.map((todo) => ({
+					title: todo.title,
+					description: todo.description,
+					status: todo.status,
+					priority: todo.priority,
+					dueAt: todo.dueAt?.toISOString() ?? null,
+					remindAt: todo.remindAt?.toISOString() ?? null,
+					labels: todo.labels.map((label) => label.name),
+					project: todo.project?.name ?? null,
+				})),
+			);
+		}),
+
+	/**
+	 * Creates todos from a CSV, JSON or Markdown file. With `dryRun` nothing is written and the
+	 * result previews what would be imported; rows with errors are always skipped.
+	 */
+	import: protectedProcedure
 		.input(
 			z.object({
-				title: z.string().min(1, "Title is required"),
-				description: z.string().optional(),
+				format: z.enum(todoTransferFormats),
+				content: z.string().max(5 * 1024 * 1024, "The file is too large"),
+				projectId: z.number().nullable().optional(), // Project to file the todos under
+				dryRun: z.boolean().default(true),
 			}),
 		)
 		.mutation(async ({ ctx, input }) => {
-			return db.todo.create({
-				data: {
-					title: input.title,
-					description: input.description,
-					userId: ctx.user.uid, // Link to the authenticated user
-					status: TodoStatus.TODO, // Default status
-				},
+			const projectId = input.projectId ?? null;
+			if (projectId !== null) {
+				await assertProjectAccess(projectId, ctx.user.uid, MemberRole.EDITOR);
+			}
+			const rows = parseTodoFile(input.format, input.content);
+			const labels = await db.label.findMany({
+				where: { userId: ctx.user.uid },
+				select: { id: true, name: true },
 			});
+			const labelIdByName = new Map(
+				labels.map((label) => [label.name.toLowerCase(), label.id]),
+			);
+			const projects = await db.project.findMany({
+				where: projectAccessWhere(ctx.user.uid, MemberRole.EDITOR),
+				select: { id: true, name: true },
+			});
+			const projectIdByName = new Map(
+				projects.map((project) => [project.name.toLowerCase(), project.id]),
+			);
+
+			const imported = rows.map((row, index) => ({
+				row: index + 1, // 1-based, not counting a CSV header
+				title: typeof row.title === "string" ? row.title : "",
+				...toImportedTodo(row, labelIdByName, projectIdByName, projectId),
+			}));
+			const valid = imported.filter((item) => item.data !== null);
+
+			let createdIds: number[] = [];
+			if (!input.dryRun && valid.length > 0) {
+				createdIds = await db.$transaction(
+					async (tx) => {
+						const ids: number[] = [];
+						// Each todo lands on top of its column, so go backwards to keep the file's order
+						for (const item of [...valid].reverse()) {
+							if (!item.data) continue;
+							const todo = await insertTodo(
+								tx,
+								ctx.user.uid,
+								item.data,
+								item.status,
+							);
+							ids.push(todo.id);
+						}
+						return ids;
+					},
+					{ timeout: 60_000 }, // Large files take longer than the default 5s
+				);
+				await publishTodoChanges("created", createdIds);
+			}
+
+			return {
+				rows: imported.map(({ data: _, ...item }) => item),
+				valid: valid.length,
+				invalid: imported.length - valid.length,
+				imported: createdIds.length,
+			};
 		}),
 
-	getAll: protectedProcedure.query(async ({ ctx }) => {
-		return db.todo.findMany({
-			where: {
-				userId: ctx.user.uid, // Only fetch todos for the logged-in user
-			},
-			orderBy: {
-				createdAt: "desc", // Show newest first
-			},
-		});
+	// Streams changes to the todos the user can see, made in other tabs or by other members
+	onChange: protectedProcedure.subscription(async function* ({ ctx, signal }) {
+		for await (const change of todoChanges.listen(signal)) {
+			// Private todos only reach their creator; project todos reach every member
+			const visible =
+				change.projectId === null
+					? change.userId === ctx.user.uid
+					: (await db.project.count({
+							where: {
+								id: change.projectId,
+								...projectAccessWhere(ctx.user.uid),
+							},
+						})) > 0;
+			if (!visible) continue;
+
+			if (change.type === "deleted") {
+				yield { type: change.type, id: change.todoId, todo: null };
+				continue;
+			}
+			const todo = await db.todo.findFirst({
+				where: { id: change.todoId, deletedAt: null },
+				include: todoListInclude,
+			});
+			if (todo) yield { type: change.type, id: todo.id, todo };
+		}
 	}),
 
+	getReminders: protectedProcedure
+		.input(
+			z
+				.object({
+					from: z.date(),
+					to: z.date(),
+				})
+				.refine((window) => window.from <= window.to, {
+					message: "`from` must not be after `to`",
+				}),
+		)
+		.query(async ({ ctx, input }) => {
+			return findDueReminders({ ...input, userId: ctx.user.uid });
+		}),
+
 	updateStatus: protectedProcedure
 		.input(
 			z.object({
 				id: z.number(),
 				status: z.nativeEnum(TodoStatus), // Use the Prisma enum for validation
+				version: z.number().int().optional(), // The version the change was made on, also when queued offline
 			}),
 		)
 		.mutation(async ({ ctx, input }) => {
-			// UpdateMany ensures we only update if the user owns the todo
-			const { count } = await db.todo.updateMany({
+			const result = await db.$transaction(async (tx) => {
+				// Load the current status for the access check and the history
+				const todo = await tx.todo.findFirst({
+					where: {
+						id: input.id,
+						deletedAt: null,
+						...todoAccessWhere(ctx.user.uid, MemberRole.EDITOR),
+					},
+					select: {
+						status: true,
+						userId: true,
+						projectId: true,
+						version: true,
+					},
+				});
+				if (!todo) {
+					throw new TRPCError({ code: "NOT_FOUND", message: "Todo not found" });
+				}
+				await assertTodoVersion(
+					{ id: input.id, version: todo.version },
+					input.version,
+					tx,
+				);
+				if (todo.status === input.status) {
+					return null; // Already there: keep its place and version
+				}
+
+				const position = await topPositionOf(
+					{ ...todo, status: input.status },
+					tx,
+				); // Land on top of the new column
+				await guardTodoVersion(
+					{ id: input.id, version: todo.version },
+					() =>
+						tx.todo.update({
+							where: { id: input.id, version: todo.version }, // Access was checked above
+							data: {
+								version: { increment: 1 },
+								status: input.status,
+								position,
+							},
+						}),
+					tx,
+				);
+				await recordTodoEvents(
+					[
+						{
+							todoId: input.id,
+							userId: ctx.user.uid,
+							type: TodoEventType.STATUS_CHANGED,
+							before: todo.status,
+							after: input.status,
+						},
+					],
+					tx,
+				);
+
+				// Completing a recurring todo schedules its next occurrence
+				const nextOccurrenceId =
+					input.status === TodoStatus.DONE
+						? await createNextOccurrence(tx, input.id, ctx.user.uid)
+						: null;
+				return { success: true, nextOccurrenceId };
+			});
+			if (!result) {
+				return { success: true, nextOccurrenceId: null };
+			}
+			await publishTodoChanges("updated", [input.id]);
+			if (result.nextOccurrenceId !== null) {
+				await publishTodoChanges("created", [result.nextOccurrenceId]);
+			}
+			return result;
+		}),
+
+	bulkUpdateStatus: protectedProcedure
+		.input(
+			z.object({
+				ids: bulkIdsSchema,
+				status: z.nativeEnum(TodoStatus),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const nextOccurrenceIds: number[] = [];
+			const result = await db.$transaction(async (tx) => {
+				const { ownedIds, todoById, failures } = await partitionOwnedTodos(
+					tx,
+					input.ids,
+					ctx.user.uid,
+				);
+
+				// Stack the moved todos on top of their new column, keeping the selection order
+				const columns = new Map<
+					number | string,
+					TodoColumn & { ids: number[] }
+				>();
+				for (const id of ownedIds) {
+					const todo = todoById.get(id);
+					if (!todo) continue;
+					// Project id, or the creator's id for todos outside projects
+					const key = todo.projectId ?? todo.userId;
+					const column = columns.get(key) ?? {
+						...todo,
+						status: input.status,
+						ids: [],
+					};
+					column.ids.push(id);
+					columns.set(key, column);
+				}
+				for (const { ids, ...column } of columns.values()) {
+					const top = await topPositionOf(column, tx);
+					await Promise.all(
+						ids.map((id, index) =>
+							tx.todo.update({
+								where: { id }, // Access was checked above
+								data: {
+									version: { increment: 1 },
+									status: input.status,
+									position: top - (ids.length - 1 - index),
+								},
+							}),
+						),
+					);
+				}
+				await recordTodoEvents(
+					ownedIds
+						.filter((id) => todoById.get(id)?.status !== input.status)
+						.map((id) => ({
+							todoId: id,
+							userId: ctx.user.uid,
+							type: TodoEventType.STATUS_CHANGED,
+							before: todoById.get(id)?.status,
+							after: input.status,
+						})),
+					tx,
+				);
+				if (input.status === TodoStatus.DONE) {
+					for (const id of ownedIds) {
+						const nextId = await createNextOccurrence(tx, id, ctx.user.uid);
+						if (nextId !== null) nextOccurrenceIds.push(nextId);
+					}
+				}
+				return bulkResults(ownedIds, failures);
+			});
+			await publishTodoChanges("updated", succeededIds(result));
+			await publishTodoChanges("created", nextOccurrenceIds);
+			return result;
+		}),
+
+	bulkDelete: protectedProcedure
+		.input(
+			z.object({
+				ids: bulkIdsSchema,
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const result = await db.$transaction(async (tx) => {
+				const { ownedIds, failures } = await partitionOwnedTodos(
+					tx,
+					input.ids,
+					ctx.user.uid,
+				);
+				// Move to the trash; todo.restore brings them back
+				await tx.todo.updateMany({
+					where: { id: { in: ownedIds } }, // Access was checked above
+					data: { deletedAt: new Date() },
+				});
+				await recordTodoEvents(
+					ownedIds.map((id) => ({
+						todoId: id,
+						userId: ctx.user.uid,
+						type: TodoEventType.DELETED,
+					})),
+					tx,
+				);
+				return bulkResults(ownedIds, failures);
+			});
+			await publishTodoChanges("deleted", succeededIds(result));
+			return result;
+		}),
+
+	// Takes todos back out of the trash, e.g. to undo bulkDelete
+	bulkRestore: protectedProcedure
+		.input(
+			z.object({
+				ids: bulkIdsSchema,
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const result = await db.$transaction(async (tx) => {
+				const { ownedIds, todoById, failures } = await partitionOwnedTodos(
+					tx,
+					input.ids,
+					ctx.user.uid,
+					true,
+				);
+				for (const id of ownedIds) {
+					const todo = todoById.get(id);
+					if (!todo) continue;
+					await tx.todo.update({
+						where: { id }, // Access was checked above
+						data: {
+							deletedAt: null,
+							position: await topPositionOf(todo, tx), // Come back on top of its column
+						},
+					});
+				}
+				await recordTodoEvents(
+					ownedIds.map((id) => ({
+						todoId: id,
+						userId: ctx.user.uid,
+						type: TodoEventType.RESTORED,
+					})),
+					tx,
+				);
+				return bulkResults(ownedIds, failures);
+			});
+			await publishTodoChanges("created", succeededIds(result)); // Reappear in lists like new todos
+			return result;
+		}),
+
+	bulkAddLabel: protectedProcedure
+		.input(
+			z.object({
+				ids: bulkIdsSchema,
+				labelId: z.number(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			await assertLabelsOwner([input.labelId], ctx.user.uid);
+			const result = await db.$transaction(async (tx) => {
+				const { ownedIds, failures } = await partitionOwnedTodos(
+					tx,
+					input.ids,
+					ctx.user.uid,
+				);
+				const label = await tx.label.findUniqueOrThrow({
+					where: { id: input.labelId },
+					select: { name: true },
+				});
+				// Todos that already carry the label are left alone
+				const todos = await tx.todo.findMany({
+					where: { id: { in: ownedIds } },
+					select: {
+						id: true,
+						labels: {
+							select: { id: true, name: true },
+							orderBy: { name: "asc" },
+						},
+					},
+				});
+				const unlabeled = todos.filter(
+					(todo) => !todo.labels.some((l) => l.id === input.labelId),
+				);
+				await Promise.all(
+					unlabeled.map((todo) =>
+						tx.todo.update({
+							where: { id: todo.id },
+							data: {
+								version: { increment: 1 },
+								labels: { connect: { id: input.labelId } },
+							},
+						}),
+					),
+				);
+				await recordTodoEvents(
+					unlabeled.map((todo) => {
+						const before = todo.labels.map((l) => l.name);
+						return {
+							todoId: todo.id,
+							userId: ctx.user.uid,
+							type: TodoEventType.EDITED,
+							field: "labels",
+							before,
+							after: [...before, label.name].sort(),
+						};
+					}),
+					tx,
+				);
+				return bulkResults(ownedIds, failures);
+			});
+			await publishTodoChanges("updated", succeededIds(result));
+			return result;
+		}),
+
+	// Manual reordering is not written to the history; it would drown out real changes
+	reorder: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+				// Neighbours in the same status column after the move; null at either end
+				prevId: z.number().nullable(),
+				nextId: z.number().nullable(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const todo = await db.todo.findFirst({
 				where: {
 					id: input.id,
-					userId: ctx.user.uid,
-				},
-				data: {
-					status: input.status,
+					deletedAt: null,
+					...todoAccessWhere(ctx.user.uid, MemberRole.EDITOR),
 				},
+				select: { status: true, userId: true, projectId: true },
 			});
-			// Optionally, check if count is 0 to throw an error if not found/authorized
-			if (count === 0) {
-				throw new Error("Todo not found or update failed"); // Or TRPCError
+			if (!todo) {
+				throw new TRPCError({ code: "NOT_FOUND", message: "Todo not found" });
 			}
-			return { success: true };
+
+			const position = await positionBetweenIds(
+				columnList(todo),
+				input.prevId,
+				input.nextId,
+			);
+			if (position === null) {
+				throw new TRPCError({
+					code: "BAD_REQUEST",
+					message: "Neighbours must be todos in the same status column",
+				});
+			}
+			await db.todo.update({
+				where: { id: input.id }, // Access was checked above
+				data: { position, version: { increment: 1 } },
+			});
+			await publishTodoChanges("updated", [input.id]);
+			return { success: true, position };
 		}),
 
 	updateDetails: protectedProcedure
@@ -65,10 +1131,26 @@ export const todoRouter = createTRPCRouter({
 				id: z.number(),
 				title: z.string().min(1).optional(),
 				description: z.string().nullable().optional(), // Allow clearing description
+				projectId: z.number().nullable().optional(), // Move between projects
+				dueAt: z.date().nullable().optional(), // Allow clearing the due date
+				remindAt: z.date().nullable().optional(), // Allow clearing the reminder
+				labelIds: z.array(z.number()).optional(), // Replaces the caller's labels on the todo
+				priority: z.nativeEnum(TodoPriority).optional(),
+				recurrence: recurrenceSchema, // null stops the todo from repeating
+				version: z.number().int().optional(), // The version the edit was made on, also when queued offline
 			}),
 		)
 		.mutation(async ({ ctx, input }) => {
-			const dataToUpdate: { title?: string; description?: string | null } = {};
+			const dataToUpdate: {
+				title?: string;
+				description?: string | null;
+				projectId?: number | null;
+				dueAt?: Date | null;
+				remindAt?: Date | null;
+				priority?: TodoPriority;
+				priorityRank?: number;
+				position?: number;
+			} & Partial<ReturnType<typeof recurrenceData>> = {};
 			if (input.title !== undefined) {
 				dataToUpdate.title = input.title;
 			}
@@ -76,23 +1158,197 @@ export const todoRouter = createTRPCRouter({
 			if (input.description !== undefined) {
 				dataToUpdate.description = input.description;
 			}
+			if (input.projectId !== undefined) {
+				if (input.projectId !== null) {
+					await assertProjectAccess(
+						input.projectId,
+						ctx.user.uid,
+						MemberRole.EDITOR,
+					);
+				}
+				dataToUpdate.projectId = input.projectId;
+			}
+			if (input.dueAt !== undefined) {
+				dataToUpdate.dueAt = input.dueAt;
+			}
+			if (input.remindAt !== undefined) {
+				dataToUpdate.remindAt = input.remindAt;
+			}
+			if (input.priority !== undefined) {
+				dataToUpdate.priority = input.priority;
+				dataToUpdate.priorityRank = priorityRank[input.priority];
+			}
+			if (input.recurrence !== undefined) {
+				Object.assign(dataToUpdate, recurrenceData(input.recurrence));
+			}
 
-			if (Object.keys(dataToUpdate).length === 0) {
+			if (
+				Object.keys(dataToUpdate).length === 0 &&
+				input.labelIds === undefined
+			) {
 				// Avoid unnecessary database calls if nothing is changing
 				return { success: true, message: "No changes provided" };
 			}
 
-			const { count } = await db.todo.updateMany({
+			const labelNames = {
+				select: { name: true },
+				orderBy: { name: "asc" },
+			} satisfies Prisma.Todo$labelsArgs;
+
+			const before = await db.$transaction(async (tx) => {
+				// Load the current values for the access check and the history
+				const todo = await tx.todo.findFirst({
+					where: {
+						id: input.id,
+						deletedAt: null,
+						...todoAccessWhere(ctx.user.uid, MemberRole.EDITOR),
+					},
+					include: {
+						labels: {
+							select: { id: true, name: true, userId: true },
+							orderBy: { name: "asc" },
+						},
+					},
+				});
+				if (!todo) {
+					throw new TRPCError({ code: "NOT_FOUND", message: "Todo not found" });
+				}
+				await assertTodoVersion(todo, input.version, tx);
+
+				// Moving to another project lands the todo on top of its column there
+				if (
+					input.projectId !== undefined &&
+					input.projectId !== todo.projectId
+				) {
+					await assertProjectMove(todo, input.projectId, ctx.user.uid);
+					dataToUpdate.position = await topPositionOf(
+						{ ...todo, projectId: input.projectId },
+						tx,
+					);
+				}
+
+				// Labels are per user: members only replace their own and keep everyone else's
+				let labelIds: number[] | undefined;
+				if (input.labelIds !== undefined) {
+					const currentIds = todo.labels.map((label) => label.id);
+					await assertLabelsOwner(
+						input.labelIds.filter((id) => !currentIds.includes(id)),
+						ctx.user.uid,
+					);
+					labelIds = [
+						...new Set([
+							...input.labelIds,
+							...todo.labels
+								.filter((label) => label.userId !== ctx.user.uid)
+								.map((label) => label.id),
+						]),
+					];
+				}
+
+				const updated = await guardTodoVersion(
+					todo,
+					() =>
+						tx.todo.update({
+							// The version guard catches an edit committed since the check above
+							where: { id: input.id, version: todo.version }, // Access was checked above
+							data: {
+								...dataToUpdate,
+								version: { increment: 1 },
+								labels: labelIds
+									? { set: labelIds.map((id) => ({ id })) }
+									: undefined,
+							},
+							include: { labels: labelNames },
+						}),
+					tx,
+				);
+
+				const events: TodoEventInput[] = historyFields
+					.filter((field) => !isSameValue(todo[field], updated[field]))
+					.map((field) => ({
+						todoId: input.id,
+						userId: ctx.user.uid,
+						type: TodoEventType.EDITED,
+						field,
+						before: todo[field],
+						after: updated[field],
+					}));
+				const labelsBefore = todo.labels.map((label) => label.name);
+				const labelsAfter = updated.labels.map((label) => label.name);
+				if (!isSameValue(labelsBefore, labelsAfter)) {
+					events.push({
+						todoId: input.id,
+						userId: ctx.user.uid,
+						type: TodoEventType.EDITED,
+						field: "labels",
+						before: labelsBefore,
+						after: labelsAfter,
+					});
+				}
+				await recordTodoEvents(events, tx);
+				return todo;
+			});
+			if (
+				input.projectId !== undefined &&
+				input.projectId !== before.projectId
+			) {
+				publishTodoMove(before, before.projectId);
+			}
+			await publishTodoChanges("updated", [input.id]);
+			return { success: true };
+		}),
+
+	assign: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+				assigneeId: z.string().nullable(), // null unassigns the todo
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const todo = await db.todo.findFirst({
 				where: {
 					id: input.id,
-					userId: ctx.user.uid,
+					deletedAt: null,
+					...todoAccessWhere(ctx.user.uid, MemberRole.EDITOR),
 				},
-				data: dataToUpdate,
+				select: { assignee: { select: { id: true, email: true } } },
 			});
-
-			if (count === 0) {
-				throw new Error("Todo not found or update failed"); // Or TRPCError
+			if (!todo) {
+				throw new TRPCError({ code: "NOT_FOUND", message: "Todo not found" });
+			}
+			if ((todo.assignee?.id ?? null) === input.assigneeId) {
+				return { success: true, message: "No changes provided" };
+			}
+			if (input.assigneeId !== null) {
+				await assertAssignable(input.id, input.assigneeId);
 			}
+
+			await db.$transaction(async (tx) => {
+				const updated = await tx.todo.update({
+					where: { id: input.id }, // Access was checked above
+					data: {
+						assigneeId: input.assigneeId,
+						version: { increment: 1 },
+					},
+					select: { assignee: { select: { email: true } } },
+				});
+				// The history stores emails so it stays readable after someone leaves
+				await recordTodoEvents(
+					[
+						{
+							todoId: input.id,
+							userId: ctx.user.uid,
+							type: TodoEventType.EDITED,
+							field: "assignee",
+							before: todo.assignee?.email ?? null,
+							after: updated.assignee?.email ?? null,
+						},
+					],
+					tx,
+				);
+			});
+			await publishTodoChanges("updated", [input.id]);
 			return { success: true };
 		}),
 
@@ -100,20 +1356,113 @@ export const todoRouter = createTRPCRouter({
 		.input(
 			z.object({
 				id: z.number(),
+				version: z.number().int().optional(), // The version the delete was made on
 			}),
 		)
 		.mutation(async ({ ctx, input }) => {
-			// deleteMany ensures we only delete if the user owns the todo
-			const { count } = await db.todo.deleteMany({
+			// Moves the todo to the trash
+			await db.$transaction(async (tx) => {
+				const todo = await tx.todo.findFirst({
+					where: {
+						id: input.id,
+						deletedAt: null,
+						...todoAccessWhere(ctx.user.uid, MemberRole.EDITOR),
+					},
+					select: { id: true, version: true },
+				});
+				if (!todo) {
+					throw new TRPCError({
+						code: "NOT_FOUND",
+						message: "Todo not found",
+					});
+				}
+				await assertTodoVersion(todo, input.version, tx);
+				await guardTodoVersion(
+					todo,
+					() =>
+						tx.todo.update({
+							where: { id: input.id, version: todo.version }, // Access was checked above
+							data: { deletedAt: new Date(), version: { increment: 1 } },
+						}),
+					tx,
+				);
+				await recordTodoEvents(
+					[
+						{
+							todoId: input.id,
+							userId: ctx.user.uid,
+							type: TodoEventType.DELETED,
+						},
+					],
+					tx,
+				);
+			});
+			await publishTodoChanges("deleted", [input.id]);
+			return { success: true };
+		}),
+
+	restore: protectedProcedure
+		.input(
+			z.object({
+				id: z.number(),
+			}),
+		)
+		.mutation(async ({ ctx, input }) => {
+			const todo = await db.todo.findFirst({
 				where: {
 					id: input.id,
-					userId: ctx.user.uid,
+					deletedAt: { not: null },
+					...todoAccessWhere(ctx.user.uid, MemberRole.EDITOR),
 				},
+				select: { status: true, userId: true, projectId: true },
 			});
-
-			if (count === 0) {
-				throw new Error("Todo not found or delete failed"); // Or TRPCError
+			if (!todo) {
+				throw new TRPCError({
+					code: "NOT_FOUND",
+					message: "Todo not found in the trash",
+				});
 			}
+
+			await db.todo.update({
+				where: { id: input.id }, // Access was checked above
+				data: {
+					deletedAt: null,
+					position: await topPositionOf(todo), // Come back on top of its column
+				},
+			});
+			await recordTodoEvents([
+				{
+					todoId: input.id,
+					userId: ctx.user.uid,
+					type: TodoEventType.RESTORED,
+				},
+			]);
+			await publishTodoChanges("created", [input.id]); // Reappears in lists like a new todo
 			return { success: true };
 		}),
-}); 
\ No newline at end of file
+
+	listTrash: protectedProcedure.query(async ({ ctx }) => {
+		// Drop anything past the retention period before showing the trash
+		await purgeExpiredTrash({ userId: ctx.user.uid });
+		return db.todo.findMany({
+			where: {
+				deletedAt: { not: null },
+				...todoAccessWhere(ctx.user.uid, MemberRole.EDITOR),
+			},
+			orderBy: {
+				deletedAt: "desc", // Most recently deleted first
+			},
+		});
+	}),
+
+	emptyTrash: protectedProcedure.mutation(async ({ ctx }) => {
+		// Permanently deletes every trashed todo the user may edit
+		const where: Prisma.TodoWhereInput = {
+			deletedAt: { not: null },
+			...todoAccessWhere(ctx.user.uid, MemberRole.EDITOR),
+		};
+		await deleteStoredAttachments({ todo: where });
+		const { count } = await db.todo.deleteMany({ where });
+		return { success: true, count };
+	}),
+});
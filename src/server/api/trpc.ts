@@ -13,6 +13,7 @@ import { unsealData } from "iron-session";
 import { cookies } from "next/headers"; // Import cookies helper
 
 import { db } from "@/server/db";
+import { TodoConflictError } from "@/server/concurrency";
 
 // Define session constants (consider moving to a shared file later)
 const SESSION_COOKIE_NAME = "session";
@@ -89,6 +90,8 @@ const t = initTRPC.context<TRPCContext>().create({
 				...shape.data,
 				zodError:
 					error.cause instanceof ZodError ? error.cause.flatten() : null,
+				todoConflict:
+					error.cause instanceof TodoConflictError ? error.cause.current : null,
 			},
 		};
 	},
@@ -0,0 +1,131 @@
+import { ChatRole } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { db } from "@/server/db";
+import type { ChatSettings } from "@/lib/chat-settings";
+import {
+	type ChatOptions,
+	type ChatTurn,
+	allowedModels,
+	llm,
+} from "@/server/llm";
+
+// Longest conversation title; titles taken from a first prompt are cut to fit
+export const CONVERSATION_TITLE_MAX_LENGTH = 100;
+
+// Tokens of the messages and system instruction sent with a prompt; older messages are left out
+export const CHAT_CONTEXT_TOKEN_BUDGET = 16_000;
+const CHAT_CONTEXT_MAX_MESSAGES = 200; // Caps the rows read for very long conversations
+
+// Throws unless the conversation exists and belongs to the user; conversations are never shared
+export const assertConversationOwner = async (
+	conversationId: number,
+	userId: string,
+) => {
+	const conversation = await db.conversation.findFirst({
+		where: { id: conversationId, userId },
+		select: { id: true },
+	});
+	if (!conversation) {
+		throw new TRPCError({
+			code: "NOT_FOUND",
+			message: "Conversation not found",
+		});
+	}
+};
+
+// Stores a message and moves its conversation to the top of the History panel
+export const addChatMessage = (
+	conversationId: number,
+	role: ChatRole,
+	content: string,
+) =>
+	db.conversation.update({
+		where: { id: conversationId },
+		data: {
+			updatedAt: new Date(),
+			messages: { create: { role, content } },
+		},
+		select: { id: true },
+	});
+
+/**
+ * The most recent messages of a conversation that fit in `tokenBudget` together with the system
+ * instruction, oldest first. Older messages are dropped whole; the newest one is always kept, and
+ * the context never starts with a reply whose prompt was dropped. The provider counts the tokens;
+ * the cut-off is found by bisection, so a long conversation takes only a few counts.
+ */
+export const loadChatContext = async (
+	conversationId: number,
+	options: ChatOptions,
+	tokenBudget = CHAT_CONTEXT_TOKEN_BUDGET,
+): Promise<ChatTurn[]> => {
+	const recent = await db.chatMessage.findMany({
+		where: { conversationId },
+		orderBy: [{ createdAt: "desc" }, { id: "desc" }], // Newest first
+		take: CHAT_CONTEXT_MAX_MESSAGES,
+		select: { role: true, content: true },
+	});
+	const history: ChatTurn[] = recent.reverse().map((message) => ({
+		role: message.role === ChatRole.USER ? "user" : "assistant",
+		text: message.content,
+	}));
+
+	// Whether the messages from `start` on fit; fewer messages never take more tokens
+	const fitsFrom = async (start: number) =>
+		(await llm.countTokens(history.slice(start), options)) <= tokenBudget;
+	let start = 0;
+	if (!(await fitsFrom(0))) {
+		let low = 1;
+		let high = Math.max(history.length - 1, 0); // The newest message is kept regardless
+		while (low < high) {
+			const middle = Math.floor((low + high) / 2);
+			if (await fitsFrom(middle)) high = middle;
+			else low = middle + 1;
+		}
+		start = high;
+	}
+
+	const turns = history.slice(start);
+	while (turns.length > 1 && turns[0]?.role === "assistant") turns.shift();
+	return turns;
+};
+
+export const chatSettingsSelect = {
+	model: true,
+	temperature: true,
+	maxOutputTokens: true,
+	topP: true,
+	systemInstruction: true,
+} as const;
+
+/**
+ * Saves the settings sent with a prompt on the conversation, or reads the saved ones when none were
+ * sent, and turns them into provider options.
+ */
+export const resolveChatOptions = async (
+	conversationId: number,
+	settings: ChatSettings | undefined,
+): Promise<ChatOptions> => {
+	const saved = settings
+		? await db.conversation.update({
+				where: { id: conversationId },
+				data: settings,
+				select: chatSettingsSelect,
+			})
+		: await db.conversation.findUniqueOrThrow({
+				where: { id: conversationId },
+				select: chatSettingsSelect,
+			});
+	return {
+		// A saved model that was taken off the allow-list falls back to the default
+		model:
+			saved.model && allowedModels.includes(saved.model)
+				? saved.model
+				: llm.defaultModel,
+		temperature: saved.temperature ?? undefined,
+		maxOutputTokens: saved.maxOutputTokens ?? undefined,
+		topP: saved.topP ?? undefined,
+		systemInstruction: saved.systemInstruction ?? undefined,
+	};
+};
@@ -0,0 +1,93 @@
+import { Prisma } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+import { db } from "@/server/db";
+
+// Relations loaded for every todo in a list, shared by todo.getAll, todo.onChange and conflicts
+export const todoListInclude = {
+	checklistItems: {
+		orderBy: [{ position: "asc" }, { id: "asc" }],
+	},
+	labels: { orderBy: { name: "asc" } },
+	assignee: { select: { id: true, email: true } },
+	_count: { select: { comments: true, attachments: true } }, // Counts for the cards
+} satisfies Prisma.TodoInclude;
+
+export type TodoListItem = Prisma.TodoGetPayload<{
+	include: typeof todoListInclude;
+}>;
+
+/**
+ * The `cause` of a version CONFLICT. The error formatter sends `current` to the client as
+ * `data.todoConflict`, so it can offer to merge with the server's copy or overwrite it.
+ */
+export class TodoConflictError extends Error {
+	constructor(readonly current: TodoListItem) {
+		super("This todo was changed by someone else");
+		this.name = "TodoConflictError";
+	}
+}
+
+/**
+ * Rejects an edit made on an outdated copy of the todo, including edits queued offline. Bulk
+ * actions and overwrites after a conflict don't send a version and skip the check.
+ */
+export const assertTodoVersion = async (
+	todo: { id: number; version: number },
+	expectedVersion: number | undefined,
+	client: Prisma.TransactionClient = db,
+) => {
+	if (expectedVersion === undefined || expectedVersion === todo.version) {
+		return;
+	}
+	const current = await client.todo.findUniqueOrThrow({
+		where: { id: todo.id },
+		include: todoListInclude,
+	});
+	const cause = new TodoConflictError(current);
+	throw new TRPCError({ code: "CONFLICT", message: cause.message, cause });
+};
+
+/**
+ * Runs a version-guarded update (`where: { id, version }`) of `todo` as it was read. Prisma fails
+ * it with P2025 when another edit was committed in between; that is reported as a CONFLICT too.
+ */
+export const guardTodoVersion = async <T>(
+	todo: { id: number; version: number },
+	update: () => Promise<T>,
+	client: Prisma.TransactionClient = db,
+) => {
+	try {
+		return await update();
+	} catch (error) {
+		if (
+			!(error instanceof Prisma.PrismaClientKnownRequestError) ||
+			error.code !== "P2025"
+		) {
+			throw error;
+		}
+		const current = await client.todo.findUnique({
+			where: { id: todo.id },
+			select: { id: true, version: true },
+		});
+		if (!current) {
+			throw new TRPCError({ code: "NOT_FOUND", message: "Todo not found" });
+		}
+		await assertTodoVersion(current, todo.version, client);
+		throw error;
+	}
+};
+
+/**
+ * Counts a change to a todo's checklist or attachments as a new version of the todo, so edits made
+ * on an older copy, e.g. while offline, are caught by the version check.
+ */
+export const bumpTodoVersion = (
+	todoId: number,
+	client: Prisma.TransactionClient = db,
+) =>
+	client.todo.update({
+		where: { id: todoId },
+		data: { version: { increment: 1 } },
+		select: { id: true },
+	});
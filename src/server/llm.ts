@@ -0,0 +1,254 @@
+import { GoogleGenAI } from "@google/genai";
+
+import { env } from "@/env";
+
+// One message of a conversation; providers map the roles onto their own names
+export interface ChatTurn {
+	role: "user" | "assistant";
+	text: string;
+}
+
+// Generation settings of a request; unset values are left to the model's defaults
+export interface ChatOptions {
+	model: string; // One of `allowedModels`
+	temperature?: number;
+	maxOutputTokens?: number;
+	topP?: number;
+	systemInstruction?: string; // Sent apart from the turns, as the provider expects it
+}
+
+/**
+ * A chat model backend. The router only talks to this interface, so backends can be swapped
+ * through `LLM_PROVIDER` without touching the chat code.
+ */
+export interface LLMProvider {
+	readonly defaultModel: string; // Used when the caller doesn't pick a model
+	streamChat(turns: ChatTurn[], options: ChatOptions): AsyncIterable<string>; // Yields text chunks of the reply
+	listModels(): Promise<string[]>;
+	countTokens(turns: ChatTurn[], options: ChatOptions): Promise<number>; // Includes the system instruction
+}
+
+// Rough token count, at about four characters per token, for backends that can't count
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const estimateTurnTokens = (turns: ChatTurn[], systemInstruction = "") =>
+	turns.reduce(
+		(total, turn) => total + estimateTokens(turn.text),
+		estimateTokens(systemInstruction),
+	);
+
+const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta";
+
+// Google's Gemini API; the key is only required once the provider is used
+class GeminiProvider implements LLMProvider {
+	readonly defaultModel: string;
+	private genAI: GoogleGenAI | null = null;
+
+	constructor(
+		private readonly apiKey: string | undefined,
+		defaultModel: string | undefined,
+	) {
+		this.defaultModel = defaultModel ?? "gemini-2.0-flash";
+	}
+
+	private requireApiKey() {
+		if (!this.apiKey) {
+			throw new Error("Missing GEMINI_API_KEY in environment variables");
+		}
+		return this.apiKey;
+	}
+
+	private get client() {
+		this.genAI ??= new GoogleGenAI({ apiKey: this.requireApiKey() });
+		return this.genAI;
+	}
+
+	// Gemini calls the assistant "model"
+	private toContents(turns: ChatTurn[]) {
+		return turns.map((turn) => ({
+			role: turn.role === "assistant" ? "model" : "user",
+			parts: [{ text: turn.text }],
+		}));
+	}
+
+	async *streamChat(turns: ChatTurn[], { model, ...config }: ChatOptions) {
+		const stream = await this.client.models.generateContentStream({
+			model,
+			contents: this.toContents(turns),
+			config,
+		});
+		for await (const chunk of stream) {
+			if (chunk.text) yield chunk.text;
+		}
+	}
+
+	// The SDK has no model listing yet, so this calls the REST API directly
+	async listModels() {
+		const response = await fetch(`${GEMINI_API_URL}/models?pageSize=1000`, {
+			headers: { "x-goog-api-key": this.requireApiKey() },
+		});
+		if (!response.ok) {
+			throw new Error(`Listing Gemini models failed: ${response.statusText}`);
+		}
+		const { models = [] } = (await response.json()) as {
+			models?: { name: string; supportedGenerationMethods?: string[] }[];
+		};
+		return models
+			.filter((m) => m.supportedGenerationMethods?.includes("generateContent"))
+			.map((m) => m.name.replace(/^models\//, ""));
+	}
+
+	// The Gemini API won't count a system instruction, so it is counted as a leading turn instead
+	async countTokens(
+		turns: ChatTurn[],
+		{ model, systemInstruction }: ChatOptions,
+	) {
+		const counted: ChatTurn[] = systemInstruction
+			? [{ role: "user", text: systemInstruction }, ...turns]
+			: turns;
+		const { totalTokens } = await this.client.models.countTokens({
+			model,
+			contents: this.toContents(counted),
+		});
+		return totalTokens ?? estimateTurnTokens(counted);
+	}
+}
+
+// Splits a streamed response body into lines; stops the download when the caller stops reading
+async function* readLines(body: ReadableStream<Uint8Array>) {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			buffer += decoder.decode(value, { stream: true });
+			const lines = buffer.split("\n");
+			buffer = lines.pop() ?? ""; // Keep an incomplete line for the next read
+			yield* lines;
+		}
+		if (buffer) yield buffer;
+	} finally {
+		await reader.cancel();
+	}
+}
+
+/**
+ * Any server with OpenAI's chat completions API, e.g. llama.cpp, Ollama, vLLM or OpenAI itself.
+ * That API has no token counting, so counts are estimated.
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+	constructor(
+		private readonly baseUrl: string,
+		private readonly apiKey: string | undefined,
+		readonly defaultModel: string,
+	) {}
+
+	private async request(path: string, init?: RequestInit) {
+		const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}${path}`, {
+			...init,
+			headers: {
+				"Content-Type": "application/json",
+				...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+			},
+		});
+		if (!response.ok) {
+			throw new Error(
+				`${path} request to ${this.baseUrl} failed: ${response.status} ${await response.text()}`,
+			);
+		}
+		return response;
+	}
+
+	// Reads the server-sent events of a streamed completion
+	async *streamChat(turns: ChatTurn[], options: ChatOptions) {
+		const messages = [
+			...(options.systemInstruction
+				? [{ role: "system", content: options.systemInstruction }]
+				: []),
+			...turns.map((turn) => ({ role: turn.role, content: turn.text })),
+		];
+		const response = await this.request("/chat/completions", {
+			method: "POST",
+			body: JSON.stringify({
+				model: options.model,
+				stream: true,
+				messages,
+				temperature: options.temperature,
+				top_p: options.topP,
+				max_tokens: options.maxOutputTokens,
+			}),
+		});
+		if (!response.body) return;
+
+		for await (const line of readLines(response.body)) {
+			if (!line.startsWith("data:")) continue; // Comments and other fields
+			const data = line.slice("data:".length).trim();
+			if (data === "[DONE]") return;
+			const event = JSON.parse(data) as {
+				choices?: { delta?: { content?: string | null } }[];
+			};
+			const text = event.choices?.[0]?.delta?.content;
+			if (text) yield text;
+		}
+	}
+
+	async listModels() {
+		const response = await this.request("/models");
+		const { data = [] } = (await response.json()) as {
+			data?: { id: string }[];
+		};
+		return data.map((model) => model.id);
+	}
+
+	async countTokens(turns: ChatTurn[], { systemInstruction }: ChatOptions) {
+		return estimateTurnTokens(turns, systemInstruction);
+	}
+}
+
+/**
+ * Answers without any model: the reply quotes the latest prompt and counts the turns, so the same
+ * conversation always streams the same text. For tests and offline development.
+ */
+class MockProvider implements LLMProvider {
+	readonly defaultModel = "mock";
+
+	async *streamChat(turns: ChatTurn[]) {
+		const prompt = turns.at(-1)?.text ?? "";
+		const reply = `Mock reply to "${prompt}" (turn ${turns.length} of the conversation).`;
+		for (const word of reply.split(/(?<= )/)) {
+			yield word;
+		}
+	}
+
+	async listModels() {
+		return [this.defaultModel];
+	}
+
+	async countTokens(turns: ChatTurn[], { systemInstruction }: ChatOptions) {
+		return estimateTurnTokens(turns, systemInstruction);
+	}
+}
+
+const createLLMProvider = (): LLMProvider => {
+	switch (env.LLM_PROVIDER) {
+		case "gemini":
+			return new GeminiProvider(env.GEMINI_API_KEY, env.LLM_MODEL);
+		case "openai":
+			return new OpenAICompatibleProvider(
+				env.OPENAI_BASE_URL,
+				env.OPENAI_API_KEY,
+				env.LLM_MODEL ?? "llama3.2",
+			);
+		case "mock":
+			return new MockProvider();
+	}
+};
+
+export const llm = createLLMProvider();
+
+// Models users may pick for a conversation: the default one and those listed in LLM_MODELS
+export const allowedModels = [
+	...new Set([llm.defaultModel, ...env.LLM_MODELS]),
+] as [string, ...string[]];
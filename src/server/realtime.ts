@@ -0,0 +1,89 @@
+import { EventEmitter, on } from "node:events";
+
+import { db } from "@/server/db";
+
+export type TodoChangeType = "created" | "updated" | "deleted";
+
+export interface TodoChange {
+	type: TodoChangeType;
+	todoId: number;
+	// Enough to decide who may see the change without loading the todo again
+	userId: string; // The todo's creator
+	projectId: number | null;
+}
+
+/**
+ * Fans todo changes out to the open `todo.onChange` subscriptions. The in-process bus only reaches
+ * subscribers on the same server instance; a broker (e.g. Redis pub/sub) can replace it by
+ * implementing this interface.
+ */
+export interface TodoChangeBus {
+	publish(change: TodoChange): void;
+	listen(signal?: AbortSignal): AsyncIterable<TodoChange>;
+}
+
+class InProcessTodoChangeBus implements TodoChangeBus {
+	private readonly emitter = new EventEmitter();
+
+	constructor() {
+		this.emitter.setMaxListeners(0); // One listener per open tab
+	}
+
+	publish(change: TodoChange) {
+		this.emitter.emit("change", change);
+	}
+
+	async *listen(signal?: AbortSignal) {
+		for await (const [change] of on(this.emitter, "change", { signal })) {
+			yield change as TodoChange;
+		}
+	}
+}
+
+// Keep a single bus across hot reloads, like the Prisma client
+const globalForEvents = globalThis as unknown as {
+	todoChanges: TodoChangeBus | undefined;
+};
+
+export const todoChanges =
+	globalForEvents.todoChanges ?? new InProcessTodoChangeBus();
+
+globalForEvents.todoChanges = todoChanges;
+
+/**
+ * Removes a todo that moved to another project from the lists of its previous project's members.
+ * Publish it before the todo's "updated" change, which reaches the new project's members.
+ */
+export const publishTodoMove = (
+	todo: { id: number; userId: string },
+	previousProjectId: number | null,
+) =>
+	todoChanges.publish({
+		type: "deleted",
+		todoId: todo.id,
+		userId: todo.userId,
+		projectId: previousProjectId,
+	});
+
+/**
+ * Publishes a change for each of the given todos. Call it after the write has committed so
+ * subscribers that reload the todo see the new state.
+ */
+export const publishTodoChanges = async (
+	type: TodoChangeType,
+	todoIds: number[],
+) => {
+	if (todoIds.length === 0) return;
+	const todos = await db.todo.findMany({
+		where: { id: { in: todoIds } },
+		select: { id: true, userId: true, projectId: true },
+	});
+	for (const todo of todos) {
+		todoChanges.publish({
+			type,
+			todoId: todo.id,
+			userId: todo.userId,
+			projectId: todo.projectId,
+		});
+	}
+};
@@ -0,0 +1,26 @@
+import { TodoStatus } from "@prisma/client";
+
+import { todoAccessWhere } from "@/server/access";
+import { db } from "@/server/db";
+
+/**
+ * Finds open todos whose reminder falls inside a time window, soonest first.
+ *
+ * Used by `todo.getReminders` for the todos the signed-in user can see, including those of shared
+ * projects, and callable directly (without `userId`) by a background scheduler that delivers
+ * reminders for every user.
+ */
+export const findDueReminders = (window: {
+	from: Date;
+	to: Date;
+	userId?: string;
+}) =>
+	db.todo.findMany({
+		where: {
+			...(window.userId && todoAccessWhere(window.userId)),
+			remindAt: { gte: window.from, lte: window.to },
+			status: { notIn: [TodoStatus.DONE, TodoStatus.CANCELED] },
+			deletedAt: null, // Trashed todos don't remind
+		},
+		orderBy: { remindAt: "asc" },
+	});
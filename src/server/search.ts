@@ -0,0 +1,172 @@
+import { Prisma } from "@prisma/client";
+
+import { HIGHLIGHT_END, HIGHLIGHT_START } from "@/lib/search";
+import { projectAccessWhere } from "@/server/access";
+import { db } from "@/server/db";
+
+export type SearchResultKind = "todo" | "comment" | "message";
+
+export interface SearchResult {
+	kind: SearchResultKind;
+	id: number; // Id of the todo, comment or chat message
+	todoId: number | null; // Todo to open for todos and comments
+	conversationId: number | null; // Conversation to open for chat messages
+	title: string; // Todo or conversation title, highlighted when a todo title itself matched
+	snippet: string; // Best matching part of the description, comment or message
+}
+
+/**
+ * The FTS5 index is not part of schema.prisma, so it is created at runtime. Triggers on the
+ * indexed tables keep it in sync with every write, including cascading deletes. Rows are only
+ * matched by id when deleting, which scans the index; that's fine at the size of one user's data.
+ * Chat messages have no todo, so their rows leave `todo_id` empty.
+ */
+const searchIndexStatements = [
+	`CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(title, body, kind UNINDEXED, ref_id UNINDEXED, todo_id UNINDEXED, tokenize = 'porter unicode61')`,
+	`CREATE TRIGGER IF NOT EXISTS search_todo_insert AFTER INSERT ON "Todo" BEGIN
+		INSERT INTO search_index (title, body, kind, ref_id, todo_id) VALUES (new.title, coalesce(new.description, ''), 'todo', new.id, new.id);
+	END`,
+	`CREATE TRIGGER IF NOT EXISTS search_todo_update AFTER UPDATE OF title, description ON "Todo" BEGIN
+		DELETE FROM search_index WHERE kind = 'todo' AND ref_id = old.id;
+		INSERT INTO search_index (title, body, kind, ref_id, todo_id) VALUES (new.title, coalesce(new.description, ''), 'todo', new.id, new.id);
+	END`,
+	`CREATE TRIGGER IF NOT EXISTS search_todo_delete AFTER DELETE ON "Todo" BEGIN
+		DELETE FROM search_index WHERE todo_id = old.id;
+	END`,
+	`CREATE TRIGGER IF NOT EXISTS search_comment_insert AFTER INSERT ON "TodoComment" BEGIN
+		INSERT INTO search_index (title, body, kind, ref_id, todo_id) VALUES ('', new.body, 'comment', new.id, new.todoId);
+	END`,
+	`CREATE TRIGGER IF NOT EXISTS search_comment_update AFTER UPDATE OF body ON "TodoComment" BEGIN
+		DELETE FROM search_index WHERE kind = 'comment' AND ref_id = old.id;
+		INSERT INTO search_index (title, body, kind, ref_id, todo_id) VALUES ('', new.body, 'comment', new.id, new.todoId);
+	END`,
+	`CREATE TRIGGER IF NOT EXISTS search_comment_delete AFTER DELETE ON "TodoComment" BEGIN
+		DELETE FROM search_index WHERE kind = 'comment' AND ref_id = old.id;
+	END`,
+	`CREATE TRIGGER IF NOT EXISTS search_message_insert AFTER INSERT ON "ChatMessage" BEGIN
+		INSERT INTO search_index (title, body, kind, ref_id, todo_id) VALUES ('', new.content, 'message', new.id, NULL);
+	END`,
+	`CREATE TRIGGER IF NOT EXISTS search_message_delete AFTER DELETE ON "ChatMessage" BEGIN
+		DELETE FROM search_index WHERE kind = 'message' AND ref_id = old.id;
+	END`,
+];
+
+const searchIndexObjects = [
+	"search_index",
+	...searchIndexStatements
+		.slice(1)
+		.map((statement) => /TRIGGER IF NOT EXISTS (\w+)/.exec(statement)?.[1]),
+];
+
+// Fills the index from scratch, for databases that had rows before the triggers existed
+const rebuildSearchIndex = () =>
+	db.$transaction([
+		db.$executeRawUnsafe("DELETE FROM search_index"),
+		db.$executeRawUnsafe(
+			`INSERT INTO search_index (title, body, kind, ref_id, todo_id) SELECT title, coalesce(description, ''), 'todo', id, id FROM "Todo"`,
+		),
+		db.$executeRawUnsafe(
+			`INSERT INTO search_index (title, body, kind, ref_id, todo_id) SELECT '', body, 'comment', id, todoId FROM "TodoComment"`,
+		),
+		db.$executeRawUnsafe(
+			`INSERT INTO search_index (title, body, kind, ref_id, todo_id) SELECT '', content, 'message', id, NULL FROM "ChatMessage"`,
+		),
+	]);
+
+/**
+ * Creates the index and any missing trigger. Checked before every search rather than once per
+ * process, because `db:push` drops objects that aren't in schema.prisma; reading sqlite_master
+ * is cheap.
+ */
+export const ensureSearchIndex = async () => {
+	const existing = await db.$queryRaw<{ name: string }[]>`
+		SELECT name FROM sqlite_master WHERE type IN ('table', 'trigger')`;
+	const names = new Set(existing.map((row) => row.name));
+	if (searchIndexObjects.every((name) => name && names.has(name))) return;
+
+	for (const statement of searchIndexStatements) {
+		await db.$executeRawUnsafe(statement);
+	}
+	// Writes made while a trigger was missing weren't indexed
+	await rebuildSearchIndex();
+};
+
+/**
+ * Turns user input into an FTS5 query: every word must match, as a prefix so results show up
+ * while typing. Quoting each word keeps FTS5 operators and syntax out of the user's hands.
+ * Returns null when nothing searchable is left.
+ */
+const toMatchQuery = (query: string) => {
+	const terms = query
+		.split(/\s+/)
+		.map((term) => term.replaceAll('"', ""))
+		.filter((term) => /[\p{L}\p{N}]/u.test(term));
+	return terms.length > 0 ? terms.map((term) => `"${term}"*`).join(" ") : null;
+};
+
+/**
+ * Searches the todos and comments the user can see and their own chat messages, best matches
+ * first. Title matches weigh more than matches in descriptions, comments and messages. Todos in
+ * the trash are left out.
+ */
+export const searchTodos = async (
+	userId: string,
+	query: string,
+	limit: number,
+): Promise<SearchResult[]> => {
+	const match = toMatchQuery(query);
+	if (!match) return [];
+	await ensureSearchIndex();
+
+	const projects = await db.project.findMany({
+		where: projectAccessWhere(userId),
+		select: { id: true },
+	});
+	const projectIds = projects.map((project) => project.id);
+	const inSharedProject =
+		projectIds.length > 0
+			? Prisma.sql`t.projectId IN (${Prisma.join(projectIds)})`
+			: Prisma.sql`0`;
+
+	const rows = await db.$queryRaw<
+		{
+			kind: SearchResultKind;
+			id: bigint | number;
+			todoId: bigint | number | null;
+			conversationId: bigint | number | null;
+			title: string;
+			snippet: string;
+		}[]
+	>`
+		SELECT
+			s.kind AS kind,
+			s.ref_id AS id,
+			s.todo_id AS todoId,
+			m.conversationId AS conversationId,
+			CASE s.kind
+				WHEN 'todo' THEN highlight(search_index, 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END})
+				WHEN 'comment' THEN t.title
+				ELSE c.title
+			END AS title,
+			snippet(search_index, 1, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 16) AS snippet
+		FROM search_index s
+		LEFT JOIN "Todo" t ON t.id = s.todo_id
+		LEFT JOIN "ChatMessage" m ON s.kind = 'message' AND m.id = s.ref_id
+		LEFT JOIN "Conversation" c ON c.id = m.conversationId
+		WHERE search_index MATCH ${match}
+			AND (
+				(t.id IS NOT NULL AND t.deletedAt IS NULL AND ((t.projectId IS NULL AND t.userId = ${userId}) OR ${inSharedProject}))
+				OR c.userId = ${userId}
+			)
+		ORDER BY bm25(search_index, 10.0, 1.0)
+		LIMIT ${limit}`;
+
+	// SQLite integers come back as BigInt from raw queries
+	return rows.map((row) => ({
+		...row,
+		id: Number(row.id),
+		todoId: row.todoId === null ? null : Number(row.todoId),
+		conversationId:
+			row.conversationId === null ? null : Number(row.conversationId),
+	}));
+};
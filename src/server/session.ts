@@ -0,0 +1,31 @@
+import { unsealData } from "iron-session";
+
+// Must match the cookie written by auth.createSession
+const SESSION_COOKIE_NAME = "session";
+
+interface SessionUser {
+	uid: string;
+}
+
+/**
+ * Reads the signed-in user from the session cookie, for route handlers that live outside tRPC
+ * (e.g. file uploads). Mirrors the `isAuthenticated` middleware in `api/trpc.ts`.
+ *
+ * Returns null when there is no session or it can't be unsealed.
+ */
+export const getSessionUser = async (cookies: {
+	get: (name: string) => { value: string } | undefined;
+}): Promise<SessionUser | null> => {
+	const sessionCookie = cookies.get(SESSION_COOKIE_NAME)?.value;
+	const password = process.env.SESSION_SECRET;
+	if (!sessionCookie || !password) return null;
+
+	try {
+		const sessionData = await unsealData<SessionUser>(sessionCookie, {
+			password,
+		});
+		return sessionData?.uid ? sessionData : null;
+	} catch {
+		return null;
+	}
+};
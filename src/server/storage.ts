@@ -0,0 +1,74 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Prisma } from "@prisma/client";
+
+import { env } from "@/env";
+import { db } from "@/server/db";
+
+/**
+ * Where attachment bytes live. The database only keeps metadata and the `key` returned by `put`,
+ * so a cloud bucket can be added later by implementing this interface and selecting it through
+ * `ATTACHMENT_STORAGE`.
+ */
+export interface AttachmentStorage {
+	put(data: Uint8Array, contentType: string): Promise<string>; // Returns the new key
+	get(key: string): Promise<Uint8Array | null>; // null when the key is unknown
+	delete(key: string): Promise<void>; // Deleting a missing key is not an error
+}
+
+// Stores files in a directory on the server's disk; works offline and in tests
+class LocalAttachmentStorage implements AttachmentStorage {
+	constructor(private readonly root: string) {}
+
+	// Keys are generated here, so they can't point outside the root
+	private pathOf(key: string) {
+		if (!/^[0-9a-f-]{36}$/.test(key)) {
+			throw new Error(`Invalid attachment key: ${key}`);
+		}
+		return path.join(this.root, key);
+	}
+
+	async put(data: Uint8Array) {
+		const key = randomUUID();
+		await mkdir(this.root, { recursive: true });
+		await writeFile(this.pathOf(key), data);
+		return key;
+	}
+
+	async get(key: string) {
+		try {
+			return await readFile(this.pathOf(key));
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+			throw error;
+		}
+	}
+
+	async delete(key: string) {
+		await rm(this.pathOf(key), { force: true });
+	}
+}
+
+const createStorage = (): AttachmentStorage => {
+	switch (env.ATTACHMENT_STORAGE) {
+		case "local":
+			return new LocalAttachmentStorage(path.resolve(env.ATTACHMENT_LOCAL_DIR));
+	}
+};
+
+export const storage = createStorage();
+
+/**
+ * Removes the stored files of the matching attachments. Call it before deleting todos or
+ * projects: the database cascade drops the attachment rows but can't reach the files.
+ */
+export const deleteStoredAttachments = async (
+	where: Prisma.AttachmentWhereInput,
+) => {
+	const attachments = await db.attachment.findMany({
+		where,
+		select: { storageKey: true },
+	});
+	await Promise.all(attachments.map((a) => storage.delete(a.storageKey)));
+};
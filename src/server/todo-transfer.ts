@@ -0,0 +1,273 @@
+import { TodoStatus } from "@prisma/client";
+import { TRPCError } from "@trpc/server";
+
+export const todoTransferFormats = ["csv", "json", "markdown"] as const;
+export type TodoTransferFormat = (typeof todoTransferFormats)[number];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+// A todo as it is written to a file; dates are ISO strings
+export type ExportedTodo = {
+	title: string;
+	description: string | null;
+	status: TodoStatus;
+	priority: string;
+	dueAt: string | null;
+	remindAt: string | null;
+	labels: string[];
+	project: string | null;
+};
+
+// A row read from a file, before validation; CSV cells are strings, JSON values can be anything
+export type ImportedRow = Partial<Record<keyof ExportedTodo, unknown>>;
+
+const csvColumns = [
+	"title",
+	"description",
+	"status",
+	"priority",
+	"dueAt",
+	"remindAt",
+	"labels",
+	"project",
+] as const satisfies readonly (keyof ExportedTodo)[];
+
+const LABEL_SEPARATOR = ";"; // Labels share one CSV cell
+
+const fileTypes: Record<
+	TodoTransferFormat,
+	{ extension: string; contentType: string }
+> = {
+	csv: { extension: "csv", contentType: "text/csv" },
+	json: { extension: "json", contentType: "application/json" },
+	markdown: { extension: "md", contentType: "text/markdown" },
+};
+
+// Spreadsheets run cells starting with these as formulas. A leading apostrophe is escaped as
+// well, so values that already start with one survive the round trip.
+const ESCAPED_PREFIX = /^[=+\-@\t\r']/;
+
+const escapeCsvCell = (value: string) => {
+	const safe = ESCAPED_PREFIX.test(value) ? `'${value}` : value;
+	return /[",\r\n]/.test(safe) ? `"${safe.replaceAll('"', '""')}"` : safe;
+};
+
+// Undoes the guard added by escapeCsvCell
+const unescapeCsvCell = (value: string) =>
+	value.startsWith("'") && ESCAPED_PREFIX.test(value.slice(1))
+		? value.slice(1)
+		: value;
+
+const toCsv = (todos: ExportedTodo[]) =>
+	[
+		csvColumns.join(","),
+		...todos.map((todo) =>
+			csvColumns
+				.map((column) => {
+					const value = todo[column];
+					return escapeCsvCell(
+						Array.isArray(value) ? value.join(LABEL_SEPARATOR) : (value ?? ""),
+					);
+				})
+				.join(","),
+		),
+	].join("\r\n");
+
+// RFC 4180: quoted cells may contain commas, doubled quotes and line breaks
+const parseCsvRecords = (content: string) => {
+	const records: string[][] = [];
+	let record: string[] = [];
+	let cell = "";
+	let quoted = false;
+	for (let i = 0; i < content.length; i++) {
+		const char = content[i];
+		if (quoted) {
+			if (char === '"' && content[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			record.push(cell);
+			cell = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && content[i + 1] === "\n") i++;
+			record.push(cell);
+			records.push(record);
+			record = [];
+			cell = "";
+		} else {
+			cell += char;
+		}
+	}
+	if (cell !== "" || record.length > 0) {
+		record.push(cell);
+		records.push(record);
+	}
+	// Blank lines carry no todo
+	return records.filter((r) => r.some((value) => value.trim() !== ""));
+};
+
+const fromCsv = (content: string): ImportedRow[] => {
+	const [header, ...records] = parseCsvRecords(content.replace(/^\uFEFF/, ""));
+	if (!header) return [];
+	const columns = header.map((name) => {
+		const column = csvColumns.find(
+			(c) => c.toLowerCase() === name.trim().toLowerCase(),
+		);
+		return column ?? null; // Unknown columns are ignored
+	});
+	if (!columns.includes("title")) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: 'The CSV header must contain a "title" column',
+		});
+	}
+	return records.map((record) => {
+		const row: ImportedRow = {};
+		columns.forEach((column, index) => {
+			const value = unescapeCsvCell(record[index] ?? "");
+			if (!column || value === "") return;
+			row[column] =
+				column === "labels"
+					? value.split(LABEL_SEPARATOR).map((label) => label.trim())
+					: value;
+		});
+		return row;
+	});
+};
+
+const fromJson = (content: string): ImportedRow[] => {
+	let data: unknown;
+	try {
+		data = JSON.parse(content);
+	} catch {
+		throw new TRPCError({ code: "BAD_REQUEST", message: "Invalid JSON file" });
+	}
+	if (!Array.isArray(data)) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: "The JSON file must contain an array of todos",
+		});
+	}
+	// Non-objects become empty rows so they are reported with their row number
+	return data.map((item) =>
+		typeof item === "object" && item !== null ? (item as ImportedRow) : {},
+	);
+};
+
+// GitHub-style task list; descriptions are the indented lines below a task
+const toMarkdown = (todos: ExportedTodo[]) =>
+	todos
+		.map((todo) => {
+			const checkbox = todo.status === TodoStatus.DONE ? "[x]" : "[ ]";
+			const task = `- ${checkbox} ${todo.title.replaceAll("\n", " ")}`;
+			const description = todo.description
+				?.split("\n")
+				.map((line) => `  ${line}`)
+				.join("\n");
+			return description ? `${task}\n${description}` : task;
+		})
+		.join("\n")
+		.concat("\n");
+
+const TASK_LINE = /^\s*[-*+]\s+\[([ xX])\]\s+(.*)$/;
+
+const fromMarkdown = (content: string): ImportedRow[] => {
+	const rows: ImportedRow[] = [];
+	let descriptionLines: string[] = [];
+	const flushDescription = () => {
+		const last = rows.at(-1);
+		const description = descriptionLines.join("\n").trim();
+		if (last && description) last.description = description;
+		descriptionLines = [];
+	};
+	for (const line of content.split(/\r?\n/)) {
+		const task = TASK_LINE.exec(line);
+		if (task) {
+			flushDescription();
+			rows.push({
+				title: task[2]?.trim(),
+				status: task[1] === " " ? TodoStatus.TODO : TodoStatus.DONE,
+			});
+		} else if (rows.length > 0 && /^\s+\S/.test(line)) {
+			descriptionLines.push(line.trim());
+		}
+		// Headings and other text outside tasks are skipped
+	}
+	flushDescription();
+	return rows;
+};
+
+/**
+ * Writes todos in one of the transfer formats. Markdown only keeps titles, descriptions and
+ * whether a todo is done.
+ */
+export const serializeTodos = (
+	format: TodoTransferFormat,
+	todos: ExportedTodo[],
+) => {
+	const content =
+		format === "csv"
+			? toCsv(todos)
+			: format === "json"
+				? JSON.stringify(todos, null, 2)
+				: toMarkdown(todos);
+	const { extension, contentType } = fileTypes[format];
+	const date = new Date().toISOString().slice(0, 10);
+	return { fileName: `todos-${date}.${extension}`, contentType, content };
+};
+
+/**
+ * Reads the rows of an import file. Throws BAD_REQUEST when the file itself can't be read;
+ * problems with single rows are left to the caller's validation.
+ */
+export const parseTodoFile = (
+	format: TodoTransferFormat,
+	content: string,
+): ImportedRow[] => {
+	const rows =
+		format === "csv"
+			? fromCsv(content)
+			: format === "json"
+				? fromJson(content)
+				: fromMarkdown(content);
+	if (rows.length > MAX_IMPORT_ROWS) {
+		throw new TRPCError({
+			code: "BAD_REQUEST",
+			message: `Files can contain at most ${MAX_IMPORT_ROWS} todos`,
+		});
+	}
+	return rows;
+};
+
+// Status names other tools use, matched after lowercasing and dropping spaces, dashes and underscores
+const statusAliases: Record<string, TodoStatus> = {
+	todo: TodoStatus.TODO,
+	open: TodoStatus.TODO,
+	notstarted: TodoStatus.TODO,
+	backlog: TodoStatus.BACKLOG,
+	inprogress: TodoStatus.IN_PROGRESS,
+	doing: TodoStatus.IN_PROGRESS,
+	started: TodoStatus.IN_PROGRESS,
+	done: TodoStatus.DONE,
+	completed: TodoStatus.DONE,
+	complete: TodoStatus.DONE,
+	closed: TodoStatus.DONE,
+	x: TodoStatus.DONE,
+	canceled: TodoStatus.CANCELED,
+	cancelled: TodoStatus.CANCELED,
+	wontdo: TodoStatus.CANCELED,
+};
+
+/**
+ * Maps a status string from another tool onto TodoStatus, e.g. "In progress" or "completed".
+ * Returns null when it isn't recognized.
+ */
+export const parseTodoStatus = (value: string): TodoStatus | null =>
+	statusAliases[value.toLowerCase().replace(/[\s_'-]/g, "")] ?? null;
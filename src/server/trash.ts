@@ -0,0 +1,23 @@
+import { MemberRole } from "@prisma/client";
+import { subDays } from "date-fns";
+
+import { env } from "@/env";
+import { todoAccessWhere } from "@/server/access";
+import { db } from "@/server/db";
+import { deleteStoredAttachments } from "@/server/storage";
+
+/**
+ * Permanently deletes todos that have been in the trash longer than `TODO_TRASH_RETENTION_DAYS`.
+ *
+ * Run opportunistically by the todo router for the trash the signed-in user can see, including
+ * shared projects, and without `userId` by `/api/cron/purge-trash`, which purges the trash for
+ * every user on a schedule.
+ */
+export const purgeExpiredTrash = async (options: { userId?: string } = {}) => {
+	const where = {
+		...(options.userId && todoAccessWhere(options.userId, MemberRole.EDITOR)),
+		deletedAt: { lt: subDays(new Date(), env.TODO_TRASH_RETENTION_DAYS) },
+	};
+	await deleteStoredAttachments({ todo: where });
+	return db.todo.deleteMany({ where });
+};
@@ -0,0 +1,49 @@
+import { createAsyncStoragePersister } from "@tanstack/query-async-storage-persister";
+import { TRPCClientError } from "@trpc/client";
+import { del, get, set } from "idb-keyval";
+import { toast } from "sonner";
+import SuperJSON from "superjson";
+
+// Restored caches older than this are thrown away; matches the query gcTime
+export const PERSISTED_CACHE_MAX_AGE = 24 * 60 * 60 * 1000;
+
+// Todo mutations share this scope so queued changes replay one at a time, in order
+export const OFFLINE_MUTATION_SCOPE = { id: "offline-todos" };
+
+/**
+ * Saves the React Query cache to IndexedDB so todos stay readable offline and after a reload.
+ * SuperJSON keeps the dates in queued mutation inputs intact.
+ */
+export const queryPersister = createAsyncStoragePersister({
+  storage:
+    typeof window === "undefined"
+      ? undefined // Nothing to persist during SSR
+      : {
+          getItem: (key) => get<string>(key),
+          setItem: set,
+          removeItem: del,
+        },
+  key: "todo-query-cache",
+  serialize: SuperJSON.stringify,
+  deserialize: SuperJSON.parse,
+});
+
+// Only todo changes waiting for the network are worth keeping; never e.g. session tokens
+export const shouldPersistMutation = (mutation: {
+  state: { isPaused: boolean };
+  options: { scope?: { id: string } };
+}) =>
+  mutation.state.isPaused &&
+  mutation.options.scope?.id === OFFLINE_MUTATION_SCOPE.id;
+
+// The server rejects a replayed offline edit with CONFLICT when the todo changed since
+export const isConflictError = (error: unknown): error is Error =>
+  error instanceof TRPCClientError && error.data?.code === "CONFLICT";
+
+// Lets the user decide whether their change should win
+export const notifyConflict = (message: string, overwrite: () => void) =>
+  toast.error(message, {
+    description: "Your change was not applied.",
+    duration: Number.POSITIVE_INFINITY,
+    action: { label: "Overwrite", onClick: overwrite },
+  });
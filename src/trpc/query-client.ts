@@ -11,6 +11,9 @@ export const createQueryClient = () =>
 				// With SSR, we usually want to set some default staleTime
 				// above 0 to avoid refetching immediately on the client
 				staleTime: 30 * 1000,
+				// Keep unused data around as long as the persisted offline cache,
+				// otherwise restored queries would be collected right away
+				gcTime: 24 * 60 * 60 * 1000,
 			},
 			dehydrate: {
 				serializeData: SuperJSON.serialize,
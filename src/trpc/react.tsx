@@ -1,19 +1,35 @@
 "use client";
 
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import type { QueryClient } from "@tanstack/react-query";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
 import {
   loggerLink,
   splitLink,
   httpBatchLink,
   httpBatchStreamLink,
+  httpSubscriptionLink,
+  type TRPCClient,
 } from "@trpc/client";
-import { createTRPCReact } from "@trpc/react-query";
+import {
+  createTRPCReact,
+  getMutationKey,
+  getQueryKey,
+} from "@trpc/react-query";
 import type { inferRouterInputs, inferRouterOutputs } from "@trpc/server";
 import { useState } from "react";
 import SuperJSON from "superjson";
+import { toast } from "sonner";
 
 import type { AppRouter } from "@/server/api/root";
 import { createQueryClient } from "./query-client";
+import {
+  OFFLINE_MUTATION_SCOPE,
+  PERSISTED_CACHE_MAX_AGE,
+  isConflictError,
+  notifyConflict,
+  queryPersister,
+  shouldPersistMutation,
+} from "./offline";
 
 let clientQueryClientSingleton: QueryClient | undefined = undefined;
 const getQueryClient = () => {
@@ -43,14 +59,69 @@ export type RouterInputs = inferRouterInputs<AppRouter>;
  */
 export type RouterOutputs = inferRouterOutputs<AppRouter>;
 
+/**
+ * Mutations queued while offline are persisted without their functions and callbacks. These
+ * defaults let the query client replay them after a reload; mutations from `useMutation` get the
+ * shared scope too, so everything replays in the order it was made.
+ */
+function registerOfflineMutations(
+  queryClient: QueryClient,
+  client: TRPCClient<AppRouter>
+) {
+  const refresh = () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: getQueryKey(api.todo) }),
+      queryClient.invalidateQueries({ queryKey: getQueryKey(api.project) }),
+    ]);
+
+  const replayable = <TInput extends object>(
+    mutate: (input: TInput) => Promise<unknown>
+  ) => ({
+    scope: OFFLINE_MUTATION_SCOPE,
+    mutationFn: mutate,
+    onError: (error: unknown, input: TInput) => {
+      if (isConflictError(error)) {
+        // Overwriting resends the change without the version precondition
+        notifyConflict(error.message, () => {
+          mutate({ ...input, version: undefined }).then(refresh, (err) =>
+            toast.error(`Failed to overwrite todo: ${err.message}`)
+          );
+        });
+        return;
+      }
+      toast.error(
+        `Failed to sync offline change: ${error instanceof Error ? error.message : String(error)}`
+      );
+    },
+    onSettled: refresh,
+  });
+
+  queryClient.setMutationDefaults(
+    getMutationKey(api.todo.create),
+    replayable(client.todo.create.mutate)
+  );
+  queryClient.setMutationDefaults(
+    getMutationKey(api.todo.updateDetails),
+    replayable(client.todo.updateDetails.mutate)
+  );
+  queryClient.setMutationDefaults(
+    getMutationKey(api.todo.updateStatus),
+    replayable(client.todo.updateStatus.mutate)
+  );
+  queryClient.setMutationDefaults(
+    getMutationKey(api.todo.delete),
+    replayable(client.todo.delete.mutate)
+  );
+}
+
 export function TRPCReactProvider(props: {
   children: React.ReactNode;
   headers: Headers;
 }) {
-  const [queryClient] = useState(() => new QueryClient());
+  const queryClient = getQueryClient();
 
-  const [trpcClient] = useState(() =>
-    api.createClient({
+  const [trpcClient] = useState(() => {
+    const client = api.createClient({
       links: [
         loggerLink({
           enabled: (op) =>
@@ -58,50 +129,75 @@ export function TRPCReactProvider(props: {
             (op.direction === "down" && op.result instanceof Error),
         }),
         splitLink({
+          // Subscriptions (ai.generateStream, todo.onChange) stream over server-sent events
           condition(op) {
-            return op.path.startsWith("auth.");
+            return op.type === "subscription";
           },
-          true: httpBatchLink({
+          true: httpSubscriptionLink({
             url: `${getBaseUrl()}/api/trpc`,
             transformer: SuperJSON,
-            headers() {
-              const heads = new Map(props.headers);
-              heads.set("x-trpc-source", "react-no-stream");
-              return Object.fromEntries(heads);
-            },
-            fetch: (url: URL | RequestInfo, options?: RequestInit) => {
-              return fetch(url, {
-                ...options,
-                credentials: "include",
-              });
-            },
           }),
-          false: httpBatchStreamLink({
-            url: `${getBaseUrl()}/api/trpc`,
-            transformer: SuperJSON,
-            headers() {
-              const heads = new Map(props.headers);
-              heads.set("x-trpc-source", "react-stream");
-              return Object.fromEntries(heads);
-            },
-            fetch: (url: URL | RequestInfo, options?: RequestInit) => {
-              return fetch(url, {
-                ...options,
-                credentials: "include",
-              });
+          false: splitLink({
+            condition(op) {
+              return op.path.startsWith("auth.");
             },
+            true: httpBatchLink({
+              url: `${getBaseUrl()}/api/trpc`,
+              transformer: SuperJSON,
+              headers() {
+                const heads = new Map(props.headers);
+                heads.set("x-trpc-source", "react-no-stream");
+                return Object.fromEntries(heads);
+              },
+              fetch: (url: URL | RequestInfo, options?: RequestInit) => {
+                return fetch(url, {
+                  ...options,
+                  credentials: "include",
+                });
+              },
+            }),
+            false: httpBatchStreamLink({
+              url: `${getBaseUrl()}/api/trpc`,
+              transformer: SuperJSON,
+              headers() {
+                const heads = new Map(props.headers);
+                heads.set("x-trpc-source", "react-stream");
+                return Object.fromEntries(heads);
+              },
+              fetch: (url: URL | RequestInfo, options?: RequestInit) => {
+                return fetch(url, {
+                  ...options,
+                  credentials: "include",
+                });
+              },
+            }),
           }),
         }),
       ],
-    })
-  );
+    });
+    registerOfflineMutations(queryClient, client);
+    return client;
+  });
 
   return (
-    <QueryClientProvider client={queryClient}>
+    <PersistQueryClientProvider
+      client={queryClient}
+      persistOptions={{
+        persister: queryPersister,
+        maxAge: PERSISTED_CACHE_MAX_AGE,
+        dehydrateOptions: {
+          // Pending queries can't be stored, unlike with the SSR defaults
+          shouldDehydrateQuery: (query) => query.state.status === "success",
+          shouldDehydrateMutation: shouldPersistMutation,
+        },
+      }}
+      // Replay changes that were still queued when the page was closed
+      onSuccess={() => queryClient.resumePausedMutations()}
+    >
       <api.Provider client={trpcClient} queryClient={queryClient}>
         {props.children}
       </api.Provider>
-    </QueryClientProvider>
+    </PersistQueryClientProvider>
   );
 }
 